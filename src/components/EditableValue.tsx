@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { FieldCorrection } from '@/lib/corrections';
+import { isLowConfidence } from '@/lib/confidence';
+import { CELL_STATE_LABELS, CellState } from '@/lib/cell-states';
+
+interface EditableValueProps {
+  value: string;
+  onCommit?: (value: string) => void;
+  correction?: FieldCorrection;
+  className?: string;
+  inputClassName?: string;
+  // Highlighted because the matching region on the scan is selected
+  active?: boolean;
+  onSelect?: () => void;
+  // Model confidence for this value, from 0 to 1
+  confidence?: number;
+  // What a marks cell holds, for cells rather than header fields and totals
+  state?: CellState;
+}
+
+const stateStyles: Partial<Record<CellState, string>> = {
+  blank: "text-muted-foreground",
+  illegible: "bg-warning/20 text-warning font-semibold border border-dashed border-warning/60",
+  'struck-through': "line-through text-muted-foreground",
+};
+
+export const EditableValue = ({
+  value,
+  onCommit,
+  correction,
+  className,
+  inputClassName,
+  active,
+  onSelect,
+  confidence,
+  state,
+}: EditableValueProps) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const ref = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    if (active) ref.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [active]);
+
+  const activeClass = active && "ring-2 ring-primary bg-primary/20";
+  // A reviewer's correction supersedes the model's doubt
+  const lowConfidence = !correction && isLowConfidence(confidence);
+  const lowConfidenceClass = lowConfidence && "bg-warning/15 underline decoration-warning decoration-wavy underline-offset-4";
+  const confidenceNote = confidence !== undefined ? ` (confidence ${Math.round(confidence * 100)}%)` : '';
+  // A corrected value is the reviewer's reading, whatever the model made of the cell
+  const shownState = correction ? undefined : state;
+  const stateClass = shownState && stateStyles[shownState];
+  const stateNote = shownState && shownState !== 'value' && shownState !== 'zero' ? `${CELL_STATE_LABELS[shownState]}. ` : '';
+  const display = shownState === 'illegible' ? `${value || ''}?` : value || (shownState === 'blank' ? '—' : '-');
+
+  if (!onCommit) {
+    return (
+      <span
+        ref={ref}
+        onClick={onSelect}
+        title={(stateNote + confidenceNote).trim() || undefined}
+        className={cn(
+          "rounded px-1 -mx-1",
+          onSelect && "cursor-pointer hover:bg-primary/10",
+          stateClass,
+          lowConfidenceClass,
+          activeClass,
+          className
+        )}
+      >
+        {display}
+      </span>
+    );
+  }
+
+  const commit = () => {
+    if (draft !== null && draft.trim() !== value) {
+      onCommit(draft.trim());
+    }
+    setDraft(null);
+  };
+
+  if (draft !== null) {
+    return (
+      <input
+        autoFocus
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setDraft(null);
+        }}
+        className={cn(
+          "w-full min-w-[3rem] rounded-md border border-primary bg-background px-1.5 py-0.5 font-mono text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring",
+          inputClassName
+        )}
+      />
+    );
+  }
+
+  return (
+    <button
+      ref={ref as React.RefObject<HTMLButtonElement>}
+      type="button"
+      onClick={() => {
+        onSelect?.();
+        setDraft(value);
+      }}
+      title={stateNote + (correction ? `AI read "${correction.original || '(blank)'}" — click to edit` : 'Click to edit') + confidenceNote}
+      className={cn(
+        "rounded px-1 -mx-1 cursor-text hover:bg-primary/10 hover:ring-1 hover:ring-primary/30 transition-colors",
+        correction && "bg-primary/15 ring-1 ring-primary/40",
+        stateClass,
+        lowConfidenceClass,
+        activeClass,
+        className
+      )}
+    >
+      {display}
+    </button>
+  );
+};
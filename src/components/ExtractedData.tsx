@@ -1,26 +1,194 @@
-import { CheckCircle2, XCircle, AlertCircle } from 'lucide-react';
+import { CheckCircle2, XCircle, AlertCircle, AlertTriangle, Eye, Pencil, Wrench, FileWarning, HelpCircle, GitCompare } from 'lucide-react';
 import { cn } from '@/lib/utils';
-
-interface TableRow {
-  qNo: string;
-  a: string;
-  b: string;
-  c: string;
-  total: string;
-}
+import {
+  JsonRecovery,
+  overallSeverity,
+  Reconciliation,
+  ReconciliationSeverity,
+  RowError,
+  TableRow,
+  templateTotals,
+  TOTAL_LABELS,
+  totalPairsFor,
+  TotalMarks,
+  TotalSource,
+} from '@/lib/extraction';
+import { MarkingScheme, SchemeIssue } from '@/lib/marking-schemes';
+import { ChoiceOutcome } from '@/lib/choice-rules';
+import { FieldCorrection, FieldPath, fieldKey } from '@/lib/corrections';
+import { EditableValue } from '@/components/EditableValue';
+import { isLowConfidence } from '@/lib/confidence';
+import { CellState, resolveCellState } from '@/lib/cell-states';
+import { FieldConflict } from '@/lib/consensus';
+import { columnKind, columnLabel, DocumentTemplate } from '@/lib/templates';
 
 interface ExtractedDataProps {
   headerInfo: Record<string, string>;
   tableData: TableRow[];
-  totalMarks: {
-    calculated: number;
-    written: number;
-    bubbleDigits: number;
-  };
+  totalMarks: TotalMarks;
+  rowErrors: RowError[];
+  reconciliation: Reconciliation;
+  scheme: MarkingScheme;
+  // Decides the header fields, columns, totals and labels shown
+  template: DocumentTemplate;
+  schemeIssues: SchemeIssue[];
+  choiceOutcome: ChoiceOutcome;
+  corrections: Record<string, FieldCorrection>;
+  confidence: Record<string, number>;
+  cellStates?: Record<string, CellState>;
+  // fieldKey() of every value the model could not read
+  unreadableFields?: string[];
+  // Disagreements between two consensus readings, each with both candidates
+  conflicts?: Record<string, FieldConflict>;
+  consensusReaders?: [string, string] | null;
+  recovery?: JsonRecovery;
+  // Values that did not fit the response schema and were blanked or zeroed
+  warnings?: string[];
   isValid: boolean;
+  // Omit to render the sheet read-only
+  onCorrect?: (path: FieldPath, value: string) => void;
+  // fieldKey() of the value whose region is highlighted on the scan
+  activeField?: string | null;
+  onLocate?: (key: string) => void;
 }
 
-export const ExtractedData = ({ headerInfo, tableData, totalMarks, isValid }: ExtractedDataProps) => {
+const severityStyles: Record<ReconciliationSeverity, { panel: string; text: string; icon: typeof CheckCircle2 }> = {
+  ok: { panel: "bg-success/10 border-success/30", text: "text-success", icon: CheckCircle2 },
+  warning: { panel: "bg-warning/10 border-warning/30", text: "text-warning", icon: AlertTriangle },
+  error: { panel: "bg-destructive/10 border-destructive/30", text: "text-destructive", icon: XCircle },
+};
+
+const totalCards: { source: TotalSource; label: string }[] = [
+  { source: 'calculated', label: 'Calculated Sum' },
+  { source: 'written', label: 'Written Total' },
+  { source: 'bubbleDigits', label: 'Bubble Digits' },
+];
+
+const recoveryNotes: Record<Exclude<JsonRecovery, 'none'>, string> = {
+  'tolerant-parse': 'The AI reply was not clean JSON and was repaired automatically.',
+  're-prompt': 'The AI reply was not valid JSON, so the AI was asked to send it again.',
+};
+
+const describeField = (path: FieldPath, tableData: TableRow[], template: DocumentTemplate) => {
+  switch (path.kind) {
+    case 'header':
+      return path.key;
+    case 'cell': {
+      const row = `${template.rowName}${tableData[path.rowIndex]?.qNo || String(path.rowIndex + 1)}`;
+      if (path.column === 'qNo') return `Row ${path.rowIndex + 1} ${template.keyColumn}`;
+      if (path.column === 'total') return `${row} ${columnLabel(template, 'total').toLowerCase()}`;
+      // Marks sheets name parts the way examiners do, as in Q3B
+      return template.markingSchemes ? `${row}${path.column.toUpperCase()}` : `${row} ${columnLabel(template, path.column)}`;
+    }
+    case 'total':
+      return `${TOTAL_LABELS[path.source]} total`;
+  }
+};
+
+export const ExtractedData = ({
+  headerInfo,
+  tableData,
+  totalMarks,
+  rowErrors,
+  reconciliation,
+  scheme,
+  template,
+  schemeIssues,
+  choiceOutcome,
+  corrections,
+  confidence,
+  cellStates = {},
+  unreadableFields = [],
+  conflicts = {},
+  consensusReaders = null,
+  recovery = 'none',
+  warnings = [],
+  isValid,
+  onCorrect,
+  activeField,
+  onLocate,
+}: ExtractedDataProps) => {
+  const rowErrorsByIndex = new Map(rowErrors.map(e => [e.rowIndex, e]));
+  const droppedByIndex = new Map(choiceOutcome.dropped.map(d => [d.rowIndex, d]));
+  const cellIssue = (rowIndex: number, part: string | null) =>
+    schemeIssues.find(i => i.rowIndex === rowIndex && i.part === part);
+  const { panel, text, icon: SeverityIcon } = severityStyles[overallSeverity(isValid, reconciliation)];
+  const correctionList = Object.values(corrections);
+  const lowConfidenceFields = Object.entries(confidence)
+    .filter(([key, score]) => !corrections[key] && isLowConfidence(score));
+
+  const totalSources = templateTotals(template);
+  const headerKeys = [
+    ...template.headerFields,
+    ...Object.keys(headerInfo).filter(key => !template.headerFields.includes(key)),
+  ];
+  const hasTotalColumn = template.totalColumn !== null;
+  const rowCheck = template.rules.some(r => r.kind === 'row-count') ? 'entries count' : 'parts sum to';
+
+  // Marks and attendance cells always have a state; other fields only show one when unreadable
+  const stateOf = (path: FieldPath, key: string, value: string): CellState | undefined => {
+    const kind = path.kind === 'cell' ? columnKind(template, path.column) : undefined;
+    return kind && kind !== 'text'
+      ? resolveCellState(cellStates, key, value)
+      : cellStates[key] === 'illegible' ? 'illegible' : undefined;
+  };
+
+  const unreadable = new Set(unreadableFields);
+  const unreadablePaths: FieldPath[] = [
+    ...Object.keys(headerInfo).map(key => ({ kind: 'header' as const, key })),
+    ...tableData.flatMap((_, rowIndex) =>
+      ['qNo', ...scheme.partLabels, 'total'].map(column => ({ kind: 'cell' as const, rowIndex, column }))
+    ),
+    { kind: 'total' as const, source: 'written' as const },
+    { kind: 'total' as const, source: 'bubbleDigits' as const },
+  ].filter(path => unreadable.has(fieldKey(path)));
+
+  const readerLabel = (index: number) => consensusReaders?.[index] ?? `Reading ${index + 1}`;
+  const conflictList = Object.values(conflicts);
+
+  // Both readings of a disputed field, as buttons when the reviewer can pick one
+  const candidates = (conflict: FieldConflict) => (
+    <span className="mt-1 flex flex-wrap justify-center gap-1 font-sans text-xs font-normal">
+      {conflict.candidates.map((candidate, i) =>
+        onCorrect ? (
+          <button
+            key={i}
+            type="button"
+            title={`Use ${readerLabel(i)}'s reading`}
+            onClick={() => onCorrect(conflict.path, candidate)}
+            className="rounded border border-accent/50 bg-accent/10 px-1.5 py-0.5 text-foreground hover:bg-accent/25 transition-colors"
+          >
+            {i === 0 ? 'A' : 'B'}: <span className="font-mono">{candidate || '(blank)'}</span>
+          </button>
+        ) : (
+          <span key={i} title={readerLabel(i)} className="rounded border border-accent/50 px-1.5 py-0.5 text-muted-foreground">
+            {i === 0 ? 'A' : 'B'}: <span className="font-mono">{candidate || '(blank)'}</span>
+          </span>
+        )
+      )}
+    </span>
+  );
+
+  const editable = (path: FieldPath, value: string, className?: string) => {
+    const key = fieldKey(path);
+    const conflict = conflicts[key];
+    return (
+      <>
+        <EditableValue
+          value={value}
+          correction={corrections[key]}
+          onCommit={onCorrect && (corrected => onCorrect(path, corrected))}
+          active={activeField === key}
+          onSelect={onLocate && (() => onLocate(key))}
+          confidence={confidence[key]}
+          state={stateOf(path, key, value)}
+          className={cn(conflict && "ring-1 ring-accent", className)}
+        />
+        {conflict && candidates(conflict)}
+      </>
+    );
+  };
+
   return (
     <div className="space-y-6 animate-fade-in">
       {/* Header Info */}
@@ -29,10 +197,13 @@ export const ExtractedData = ({ headerInfo, tableData, totalMarks, isValid }: Ex
           Document Information
         </h3>
         <div className="grid grid-cols-2 gap-3">
-          {Object.entries(headerInfo).map(([key, value]) => (
+          {/* The template's own fields come first, even when the sheet left them out */}
+          {headerKeys.map(key => (
             <div key={key} className="space-y-1">
               <p className="text-xs text-muted-foreground uppercase tracking-wide">{key}</p>
-              <p className="text-sm font-medium text-foreground">{value || '-'}</p>
+              <p className="text-sm font-medium text-foreground">
+                {editable({ kind: 'header', key }, headerInfo[key] ?? '')}
+              </p>
             </div>
           ))}
         </div>
@@ -40,81 +211,293 @@ export const ExtractedData = ({ headerInfo, tableData, totalMarks, isValid }: Ex
 
       {/* Table Data */}
       <div className="glass rounded-xl overflow-hidden">
-        <div className="p-4 border-b border-border">
+        <div className="p-4 border-b border-border flex items-center justify-between gap-3">
           <h3 className="text-sm font-semibold text-primary uppercase tracking-wider">
-            Marks Table
+            {template.tableTitle}
           </h3>
+          <span className="text-xs text-muted-foreground">{scheme.name}</span>
         </div>
         <div className="overflow-x-auto">
           <table className="w-full">
             <thead>
               <tr className="bg-secondary/50">
-                <th className="px-4 py-3 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider">Q.No</th>
-                <th className="px-4 py-3 text-center text-xs font-semibold text-muted-foreground uppercase tracking-wider">A</th>
-                <th className="px-4 py-3 text-center text-xs font-semibold text-muted-foreground uppercase tracking-wider">B</th>
-                <th className="px-4 py-3 text-center text-xs font-semibold text-muted-foreground uppercase tracking-wider">C</th>
-                <th className="px-4 py-3 text-right text-xs font-semibold text-muted-foreground uppercase tracking-wider">Total</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider">{template.keyColumn}</th>
+                {template.columns.map(column => (
+                  <th key={column.key} className="px-4 py-3 text-center text-xs font-semibold text-muted-foreground uppercase tracking-wider">{column.label}</th>
+                ))}
+                {hasTotalColumn && (
+                  <th className="px-4 py-3 text-right text-xs font-semibold text-muted-foreground uppercase tracking-wider">{template.totalColumn}</th>
+                )}
               </tr>
             </thead>
             <tbody className="divide-y divide-border">
-              {tableData.map((row, idx) => (
-                <tr key={idx} className="hover:bg-secondary/30 transition-colors">
-                  <td className="px-4 py-3 text-sm font-mono text-foreground">{row.qNo}</td>
-                  <td className="px-4 py-3 text-sm font-mono text-center text-foreground">{row.a || '-'}</td>
-                  <td className="px-4 py-3 text-sm font-mono text-center text-foreground">{row.b || '-'}</td>
-                  <td className="px-4 py-3 text-sm font-mono text-center text-foreground">{row.c || '-'}</td>
-                  <td className="px-4 py-3 text-sm font-mono text-right font-semibold text-primary">{row.total || '-'}</td>
-                </tr>
-              ))}
+              {tableData.map((row, idx) => {
+                const rowError = rowErrorsByIndex.get(idx);
+                const totalIssue = cellIssue(idx, null);
+                const dropped = droppedByIndex.get(idx);
+                return (
+                  <tr
+                    key={idx}
+                    title={dropped?.reason}
+                    className={cn(
+                      "transition-colors",
+                      rowError ? "bg-destructive/10 hover:bg-destructive/20" : "hover:bg-secondary/30",
+                      dropped && "opacity-60"
+                    )}
+                  >
+                    <td className="px-4 py-3 text-sm font-mono text-foreground">
+                      <span className="inline-flex items-center gap-1.5">
+                        {rowError && <AlertCircle className="w-3.5 h-3.5 text-destructive" />}
+                        {editable({ kind: 'cell', rowIndex: idx, column: 'qNo' }, row.qNo)}
+                      </span>
+                    </td>
+                    {template.columns.map(column => {
+                      const issue = cellIssue(idx, column.key);
+                      return (
+                        <td
+                          key={column.key}
+                          title={issue?.message}
+                          className={cn(
+                            "px-4 py-3 text-sm",
+                            column.kind === 'text' ? "text-left" : "font-mono text-center",
+                            issue ? "text-warning font-semibold underline decoration-dotted" : "text-foreground"
+                          )}
+                        >
+                          {editable({ kind: 'cell', rowIndex: idx, column: column.key }, row.parts[column.key] ?? '')}
+                        </td>
+                      );
+                    })}
+                    {hasTotalColumn && (
+                      <td
+                        title={totalIssue?.message}
+                        className={cn(
+                          "px-4 py-3 text-sm font-mono text-right font-semibold",
+                          rowError ? "text-destructive" : totalIssue ? "text-warning" : "text-primary"
+                        )}
+                      >
+                        {editable({ kind: 'cell', rowIndex: idx, column: 'total' }, row.total, cn(dropped && "line-through"))}
+                        {dropped && (
+                          <span className="ml-2 text-xs font-normal text-muted-foreground">not counted</span>
+                        )}
+                        {rowError && (
+                          <span className="ml-2 text-xs font-normal text-muted-foreground">
+                            expected {rowError.expected}
+                          </span>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         </div>
       </div>
 
+      {/* Question Selection */}
+      {scheme.choiceRules.length > 0 && (
+        <div className="glass rounded-xl p-5">
+          <h3 className="text-sm font-semibold text-primary mb-3 uppercase tracking-wider">
+            Question Selection
+          </h3>
+          <ul className="space-y-1 text-sm text-muted-foreground">
+            {choiceOutcome.explanations.map((explanation, i) => (
+              <li key={i}>{explanation}</li>
+            ))}
+          </ul>
+          <p className="mt-3 text-sm text-foreground">
+            Counted {choiceOutcome.countedRows.length} of {tableData.length} rows for a total of{' '}
+            <span className="font-mono font-semibold">{choiceOutcome.total}</span>
+            {choiceOutcome.dropped.length > 0 && (
+              <> ({choiceOutcome.dropped.length} extra attempt{choiceOutcome.dropped.length > 1 ? 's' : ''} dropped)</>
+            )}
+          </p>
+        </div>
+      )}
+
       {/* Validation Summary */}
-      <div className={cn(
-        "rounded-xl p-5 border-2 transition-all",
-        isValid 
-          ? "bg-success/10 border-success/30" 
-          : "bg-destructive/10 border-destructive/30"
-      )}>
+      <div className={cn("rounded-xl p-5 border-2 transition-all", panel)}>
         <div className="flex items-center gap-3 mb-4">
-          {isValid ? (
-            <CheckCircle2 className="w-6 h-6 text-success" />
-          ) : (
-            <XCircle className="w-6 h-6 text-destructive" />
-          )}
-          <h3 className={cn(
-            "text-lg font-semibold",
-            isValid ? "text-success" : "text-destructive"
-          )}>
-            {isValid ? "Validation Passed" : "Validation Failed"}
-          </h3>
+          <SeverityIcon className={cn("w-6 h-6", text)} />
+          <div>
+            <h3 className={cn("text-lg font-semibold", text)}>
+              {isValid ? "Validation Passed" : "Validation Failed"}
+            </h3>
+            <p className="text-sm text-muted-foreground">{reconciliation.summary}</p>
+          </div>
         </div>
         
         <div className="grid grid-cols-3 gap-4">
-          <div className="space-y-1">
-            <p className="text-xs text-muted-foreground uppercase tracking-wide">Calculated Sum</p>
-            <p className="text-2xl font-bold font-mono text-foreground">{totalMarks.calculated}</p>
-          </div>
-          <div className="space-y-1">
-            <p className="text-xs text-muted-foreground uppercase tracking-wide">Written Total</p>
-            <p className="text-2xl font-bold font-mono text-foreground">{totalMarks.written}</p>
+          {totalCards.filter(({ source }) => totalSources.includes(source)).map(({ source, label }) => (
+            <div key={source} className="space-y-1">
+              <p className="text-xs text-muted-foreground uppercase tracking-wide">{label}</p>
+              <p className={cn(
+                "text-2xl font-bold font-mono",
+                reconciliation.culprit === source ? text : "text-foreground"
+              )}>
+                {source === 'calculated'
+                  ? totalMarks[source]
+                  : editable({ kind: 'total', source }, String(totalMarks[source]))}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 flex flex-wrap gap-2">
+          {totalPairsFor(totalSources).map(({ pair, sources: [x, y] }) => {
+            const agrees = reconciliation.agreements[pair];
+            return (
+              <span
+                key={pair}
+                className={cn(
+                  "inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium",
+                  agrees ? "bg-success/15 text-success" : "bg-destructive/15 text-destructive"
+                )}
+              >
+                {agrees ? <CheckCircle2 className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+                {TOTAL_LABELS[x]} {agrees ? '=' : '≠'} {TOTAL_LABELS[y]}
+              </span>
+            );
+          })}
+        </div>
+
+        {reconciliation.severity !== 'ok' && (
+          <div className="mt-4 flex items-start gap-2 p-3 rounded-lg bg-background/50">
+            <AlertCircle className="w-4 h-4 text-warning mt-0.5 shrink-0" />
+            <p className="text-sm text-muted-foreground">
+              {reconciliation.culprit
+                ? `Likely culprit: ${TOTAL_LABELS[reconciliation.culprit].toLowerCase()} total. Please verify it against the sheet.`
+                : 'No two totals agree. Please verify the marks manually.'}
+            </p>
           </div>
-          <div className="space-y-1">
-            <p className="text-xs text-muted-foreground uppercase tracking-wide">Bubble Digits</p>
-            <p className="text-2xl font-bold font-mono text-foreground">{totalMarks.bubbleDigits}</p>
+        )}
+
+        {schemeIssues.length > 0 && (
+          <div className="mt-4 flex items-start gap-2 p-3 rounded-lg bg-background/50">
+            <AlertCircle className="w-4 h-4 text-warning mt-0.5 shrink-0" />
+            <div className="text-sm text-muted-foreground space-y-1">
+              <p>
+                {schemeIssues.length} value{schemeIssues.length > 1 ? 's break' : ' breaks'} the{' '}
+                {template.markingSchemes ? `${scheme.name} limits` : `${template.name} rules`}:
+              </p>
+              <ul>
+                {schemeIssues.map((issue, i) => (
+                  <li key={i}>{issue.message}</li>
+                ))}
+              </ul>
+            </div>
           </div>
-        </div>
+        )}
 
-        {!isValid && (
+        {rowErrors.length > 0 && (
           <div className="mt-4 flex items-start gap-2 p-3 rounded-lg bg-background/50">
             <AlertCircle className="w-4 h-4 text-warning mt-0.5 shrink-0" />
+            <div className="text-sm text-muted-foreground space-y-1">
+              <p>
+                {rowErrors.length} row{rowErrors.length > 1 ? 's do' : ' does'} not match the{' '}
+                {(template.totalColumn ?? 'total').toLowerCase()} column:
+              </p>
+              <ul className="font-mono">
+                {rowErrors.map(e => (
+                  <li key={e.rowIndex}>
+                    {template.rowName}{e.qNo || e.rowIndex + 1}: {rowCheck} {e.expected}, {(template.totalColumn ?? 'total').toLowerCase()} shows {e.actual}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {conflictList.length > 0 && (
+          <div className="mt-4 flex items-start gap-2 p-3 rounded-lg bg-background/50">
+            <GitCompare className="w-4 h-4 text-accent mt-0.5 shrink-0" />
+            <div className="text-sm text-muted-foreground space-y-1">
+              <p>
+                The two readings disagree on {conflictList.length} value{conflictList.length > 1 ? 's' : ''}
+                {consensusReaders && <> (A: {consensusReaders[0]}, B: {consensusReaders[1]})</>}.
+                {onCorrect ? ' Pick the right reading under each value above, or type your own:' : ':'}
+              </p>
+              <ul className="font-mono">
+                {conflictList.map(c => (
+                  <li key={fieldKey(c.path)}>
+                    {describeField(c.path, tableData, template)}: {c.candidates[0] || '(blank)'} / {c.candidates[1] || '(blank)'}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {unreadablePaths.length > 0 && (
+          <div className="mt-4 flex items-start gap-2 p-3 rounded-lg bg-background/50">
+            <HelpCircle className="w-4 h-4 text-warning mt-0.5 shrink-0" />
+            <div className="text-sm text-muted-foreground space-y-1">
+              <p>
+                {unreadablePaths.length} value{unreadablePaths.length > 1 ? 's' : ''} could not be read and{' '}
+                {unreadablePaths.length > 1 ? 'are' : 'is'} left out of the sums. Read {unreadablePaths.length > 1 ? 'them' : 'it'} from the scan and enter the mark:
+              </p>
+              <ul className="font-mono">
+                {unreadablePaths.map(path => (
+                  <li key={fieldKey(path)}>{describeField(path, tableData, template)}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {lowConfidenceFields.length > 0 && (
+          <div className="mt-4 flex items-start gap-2 p-3 rounded-lg bg-background/50">
+            <Eye className="w-4 h-4 text-warning mt-0.5 shrink-0" />
+            <p className="text-sm text-muted-foreground">
+              {lowConfidenceFields.length} value{lowConfidenceFields.length > 1 ? 's were' : ' was'} read with low
+              confidence and {lowConfidenceFields.length > 1 ? 'are' : 'is'} underlined above. Check them against the scan.
+            </p>
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="mt-4 flex items-start gap-2 p-3 rounded-lg bg-background/50">
+            <FileWarning className="w-4 h-4 text-warning mt-0.5 shrink-0" />
+            <div className="text-sm text-muted-foreground space-y-1">
+              <p>
+                {warnings.length} problem{warnings.length > 1 ? 's' : ''} came up while reading the AI reply.
+                Blanks and zeros below may not be what the sheet says:
+              </p>
+              <ul className="font-mono text-xs">
+                {warnings.map((w, i) => (
+                  <li key={i}>{w}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {recovery !== 'none' && (
+          <div className="mt-4 flex items-start gap-2 p-3 rounded-lg bg-background/50">
+            <Wrench className="w-4 h-4 text-warning mt-0.5 shrink-0" />
             <p className="text-sm text-muted-foreground">
-              The calculated sum does not match the bubble digits. Please verify the marks manually.
+              {recoveryNotes[recovery]} Give the values a quick check against the scan.
             </p>
           </div>
         )}
+
+        {correctionList.length > 0 && (
+          <div className="mt-4 flex items-start gap-2 p-3 rounded-lg bg-background/50">
+            <Pencil className="w-4 h-4 text-primary mt-0.5 shrink-0" />
+            <div className="text-sm text-muted-foreground space-y-1">
+              <p>
+                {correctionList.length} value{correctionList.length > 1 ? 's' : ''} corrected by a reviewer:
+              </p>
+              <ul className="font-mono">
+                {correctionList.map(c => (
+                  <li key={fieldKey(c.path)}>
+                    {describeField(c.path, tableData, template)}: {c.original || '(blank)'} → {c.corrected || '(blank)'}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
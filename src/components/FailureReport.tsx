@@ -0,0 +1,63 @@
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ExtractionFailure, FAILURE_LABELS, FailureCategory } from '@/lib/failures';
+
+interface FailureReportProps {
+  failures: ExtractionFailure[];
+  onRetry: () => void;
+}
+
+export const FailureReport = ({ failures, onRetry }: FailureReportProps) => {
+  const counts = failures.reduce<Partial<Record<FailureCategory, number>>>((acc, f) => {
+    acc[f.category] = (acc[f.category] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <div className="glass rounded-2xl p-6 border border-destructive/30 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-destructive/20 flex items-center justify-center">
+            <AlertTriangle className="w-5 h-5 text-destructive" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">
+              {failures.length} image{failures.length === 1 ? '' : 's'} failed to process
+            </h3>
+            <div className="flex flex-wrap gap-1.5 mt-1">
+              {(Object.entries(counts) as [FailureCategory, number][]).map(([category, count]) => (
+                <Badge key={category} variant="outline" className="text-xs">
+                  {FAILURE_LABELS[category]} × {count}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={onRetry}>
+          <RotateCcw className="w-4 h-4" />
+          Retry failed ({failures.length})
+        </Button>
+      </div>
+
+      <div className="rounded-lg border border-border divide-y divide-border max-h-64 overflow-y-auto">
+        {failures.map(failure => (
+          <div key={failure.imageId} className="flex items-start gap-3 px-4 py-2.5 text-sm">
+            <Badge variant="destructive" className="shrink-0 text-xs">
+              {FAILURE_LABELS[failure.category]}
+            </Badge>
+            <div className="min-w-0">
+              <p className="font-medium text-foreground truncate">
+                {failure.imageName}
+                {failure.attempts > 1 && (
+                  <span className="font-normal text-muted-foreground"> • gave up after {failure.attempts} attempts</span>
+                )}
+              </p>
+              <p className="text-xs text-muted-foreground font-mono break-words">{failure.message}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
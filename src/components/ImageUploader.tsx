@@ -1,22 +1,70 @@
 import { useCallback, useState } from 'react';
-import { Upload, Image as ImageIcon, X, Images } from 'lucide-react';
+import { Upload, Image as ImageIcon, X, Images, Loader2, Check, BookOpen, Unlink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { ImageSource, isPdf, splitPdfIntoPages } from '@/lib/pdf';
+import { formatBytes } from '@/lib/compression';
 
 export interface ImageItem {
   file: File;
   preview: string;
   id: string;
+  // Set when the image is a page rendered from an uploaded PDF
+  source?: ImageSource;
+  // Images sharing this id are pages of one booklet and become a single record
+  documentId?: string;
 }
 
+const readAsDataURL = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+
+const toImageItem = async (file: File, source?: ImageSource): Promise<ImageItem> => ({
+  file,
+  preview: await readAsDataURL(file),
+  id: `${file.name}-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+  source,
+});
+
 interface ImageUploaderProps {
   onImagesSelect: (images: ImageItem[]) => void;
   images: ImageItem[];
   onRemove: (id: string) => void;
   onClear: () => void;
+  // Size of each image as last sent to extract-document, by image id
+  uploadSizes: Record<string, number>;
 }
 
-export const ImageUploader = ({ onImagesSelect, images, onRemove, onClear }: ImageUploaderProps) => {
+export const ImageUploader = ({ onImagesSelect, images, onRemove, onClear, uploadSizes }: ImageUploaderProps) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [isConverting, setIsConverting] = useState(false);
+  const [selection, setSelection] = useState<string[]>([]);
+  const { toast } = useToast();
+
+  // Removed images drop out of the selection
+  const selectedIds = selection.filter(id => images.some(img => img.id === id));
+
+  // Booklets are numbered in the order their first page appears
+  const bookletIds = [...new Set(images.map(img => img.documentId).filter(Boolean))];
+
+  const toggleSelected = (id: string) => {
+    setSelection(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+  };
+
+  const combineSelected = () => {
+    const documentId = `booklet-${Date.now()}`;
+    onImagesSelect(images.map(img => (selectedIds.includes(img.id) ? { ...img, documentId } : img)));
+    setSelection([]);
+  };
+
+  const splitBooklet = (documentId: string) => {
+    onImagesSelect(images.map(img => (img.documentId === documentId ? { ...img, documentId: undefined } : img)));
+  };
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -35,25 +83,45 @@ export const ImageUploader = ({ onImagesSelect, images, onRemove, onClear }: Ima
     setIsDragging(false);
   }, []);
 
-  const processFiles = useCallback((files: FileList) => {
-    const imageFiles = Array.from(files).filter(f => f.type.startsWith('image/'));
+  const processFiles = useCallback(async (files: FileList) => {
+    const accepted = Array.from(files).filter(f => f.type.startsWith('image/') || isPdf(f));
+    if (accepted.length === 0) return;
+
+    setIsConverting(accepted.some(isPdf));
     const newImages: ImageItem[] = [];
 
-    imageFiles.forEach(file => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        newImages.push({
-          file,
-          preview: reader.result as string,
-          id: `${file.name}-${Date.now()}-${Math.random().toString(36).slice(2)}`
-        });
-        if (newImages.length === imageFiles.length) {
-          onImagesSelect([...images, ...newImages]);
+    // Files are handled one by one so pages keep their upload order
+    for (const file of accepted) {
+      try {
+        if (isPdf(file)) {
+          const pages = await splitPdfIntoPages(file);
+          const uploadId = `${file.name}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+          for (const page of pages) {
+            newImages.push(await toImageItem(page.file, {
+              uploadId,
+              fileName: file.name,
+              pageNumber: page.pageNumber,
+              pageCount: page.pageCount,
+            }));
+          }
+        } else {
+          newImages.push(await toImageItem(file));
         }
-      };
-      reader.readAsDataURL(file);
-    });
-  }, [images, onImagesSelect]);
+      } catch (error) {
+        console.error(`Error reading ${file.name}:`, error);
+        toast({
+          title: `Could not read ${file.name}`,
+          description: error instanceof Error ? error.message : 'The file may be corrupt or password-protected.',
+          variant: 'destructive',
+        });
+      }
+    }
+
+    setIsConverting(false);
+    if (newImages.length > 0) {
+      onImagesSelect([...images, ...newImages]);
+    }
+  }, [images, onImagesSelect, toast]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -92,46 +160,109 @@ export const ImageUploader = ({ onImagesSelect, images, onRemove, onClear }: Ima
           </button>
         </div>
         
+        <div className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+          <span>
+            {selectedIds.length > 0
+              ? `${selectedIds.length} selected`
+              : 'Select pages of one student to combine them into a booklet'}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={combineSelected}
+            disabled={selectedIds.length < 2}
+          >
+            <BookOpen className="w-3 h-3" />
+            Combine as booklet
+          </Button>
+        </div>
+
         <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 max-h-[300px] overflow-y-auto p-1">
-          {images.map((img) => (
-            <div 
-              key={img.id} 
-              className="relative aspect-square rounded-lg overflow-hidden border border-border bg-card group"
-            >
-              <img 
-                src={img.preview} 
-                alt="Uploaded document" 
-                className="w-full h-full object-cover"
-              />
-              <button
-                onClick={() => onRemove(img.id)}
-                className="absolute top-2 right-2 p-1.5 rounded-full bg-background/80 backdrop-blur-sm border border-border opacity-0 group-hover:opacity-100 hover:bg-destructive hover:border-destructive transition-all duration-200"
+          {images.map((img) => {
+            const isSelected = selectedIds.includes(img.id);
+            const bookletNumber = img.documentId ? bookletIds.indexOf(img.documentId) + 1 : 0;
+            const bookletPages = img.documentId ? images.filter(i => i.documentId === img.documentId) : [];
+
+            return (
+              <div 
+                key={img.id} 
+                className={cn(
+                  "relative aspect-square rounded-lg overflow-hidden border bg-card group",
+                  isSelected ? "border-primary ring-2 ring-primary" : img.documentId ? "border-primary/50" : "border-border"
+                )}
               >
-                <X className="w-3 h-3" />
-              </button>
-              <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/60 to-transparent">
-                <p className="text-xs text-white truncate">{img.file.name}</p>
+                <img 
+                  src={img.preview} 
+                  alt="Uploaded document" 
+                  className="w-full h-full object-cover cursor-pointer"
+                  onClick={() => toggleSelected(img.id)}
+                />
+                <button
+                  onClick={() => toggleSelected(img.id)}
+                  className={cn(
+                    "absolute top-2 left-2 w-5 h-5 rounded border flex items-center justify-center transition-all duration-200",
+                    isSelected
+                      ? "bg-primary border-primary text-primary-foreground"
+                      : "bg-background/80 backdrop-blur-sm border-border opacity-0 group-hover:opacity-100"
+                  )}
+                >
+                  {isSelected && <Check className="w-3 h-3" />}
+                </button>
+                <button
+                  onClick={() => onRemove(img.id)}
+                  className="absolute top-2 right-2 p-1.5 rounded-full bg-background/80 backdrop-blur-sm border border-border opacity-0 group-hover:opacity-100 hover:bg-destructive hover:border-destructive transition-all duration-200"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+                {img.documentId && (
+                  <button
+                    onClick={() => splitBooklet(img.documentId)}
+                    title="Split booklet back into separate sheets"
+                    className="absolute top-9 left-2 flex items-center gap-1 rounded-full bg-primary/90 px-2 py-0.5 text-[10px] font-medium text-primary-foreground hover:bg-destructive transition-colors"
+                  >
+                    <BookOpen className="w-3 h-3 group-hover:hidden" />
+                    <Unlink className="w-3 h-3 hidden group-hover:block" />
+                    Booklet {bookletNumber} • p. {bookletPages.indexOf(img) + 1}
+                  </button>
+                )}
+                <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/60 to-transparent">
+                  <p className="text-xs text-white truncate">
+                    {img.source ? `${img.source.fileName} • p. ${img.source.pageNumber}/${img.source.pageCount}` : img.file.name}
+                  </p>
+                  <p className="text-[10px] text-white/80 truncate">
+                    {uploadSizes[img.id] !== undefined
+                      ? `${formatBytes(img.file.size)} → ${formatBytes(uploadSizes[img.id])}`
+                      : formatBytes(img.file.size)}
+                  </p>
+                </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
           
           {/* Add more button */}
-          <label className={cn(
-            "aspect-square rounded-lg border-2 border-dashed cursor-pointer",
-            "flex flex-col items-center justify-center gap-1",
-            "hover:border-primary/50 hover:bg-primary/5 transition-all",
-            "border-border bg-card/50"
-          )}>
-            <input
-              type="file"
-              accept="image/*"
-              multiple
-              onChange={handleFileInput}
-              className="hidden"
-            />
-            <Upload className="w-6 h-6 text-muted-foreground" />
-            <span className="text-xs text-muted-foreground">Add more</span>
-          </label>
+          {isConverting ? (
+            <div className="aspect-square rounded-lg border-2 border-dashed border-border bg-card/50 flex flex-col items-center justify-center gap-1">
+              <Loader2 className="w-6 h-6 text-primary animate-spin" />
+              <span className="text-xs text-muted-foreground">Splitting PDF...</span>
+            </div>
+          ) : (
+            <label className={cn(
+              "aspect-square rounded-lg border-2 border-dashed cursor-pointer",
+              "flex flex-col items-center justify-center gap-1",
+              "hover:border-primary/50 hover:bg-primary/5 transition-all",
+              "border-border bg-card/50"
+            )}>
+              <input
+                type="file"
+                accept="image/*,application/pdf"
+                multiple
+                onChange={handleFileInput}
+                className="hidden"
+              />
+              <Upload className="w-6 h-6 text-muted-foreground" />
+              <span className="text-xs text-muted-foreground">Add more</span>
+            </label>
+          )}
         </div>
       </div>
     );
@@ -154,7 +285,7 @@ export const ImageUploader = ({ onImagesSelect, images, onRemove, onClear }: Ima
     >
       <input
         type="file"
-        accept="image/*"
+        accept="image/*,application/pdf"
         multiple
         onChange={handleFileInput}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
@@ -164,7 +295,9 @@ export const ImageUploader = ({ onImagesSelect, images, onRemove, onClear }: Ima
         "w-16 h-16 rounded-2xl flex items-center justify-center transition-all duration-300",
         isDragging ? "bg-primary/20" : "bg-secondary"
       )}>
-        {isDragging ? (
+        {isConverting ? (
+          <Loader2 className="w-8 h-8 text-primary animate-spin" />
+        ) : isDragging ? (
           <ImageIcon className="w-8 h-8 text-primary animate-pulse" />
         ) : (
           <Upload className="w-8 h-8 text-muted-foreground" />
@@ -173,7 +306,9 @@ export const ImageUploader = ({ onImagesSelect, images, onRemove, onClear }: Ima
       
       <div className="text-center">
         <p className="text-foreground font-medium">
-          {isDragging ? "Drop your images here" : "Drag & drop your images"}
+          {isConverting
+            ? "Splitting PDF into pages..."
+            : isDragging ? "Drop your images or PDFs here" : "Drag & drop your images or PDFs"}
         </p>
         <p className="text-sm text-muted-foreground mt-1">
           or click to browse (multiple allowed)
@@ -181,7 +316,7 @@ export const ImageUploader = ({ onImagesSelect, images, onRemove, onClear }: Ima
       </div>
       
       <p className="text-xs text-muted-foreground">
-        Supports: JPG, PNG, WEBP • Max 10MB per image
+        Supports: JPG, PNG, WEBP, PDF • Large photos are resized before upload
       </p>
     </div>
   );
@@ -1,8 +1,16 @@
-import { Loader2, ScanSearch, Table, Calculator, FileCheck } from 'lucide-react';
+import { Loader2, ScanSearch, Table, Calculator, FileCheck, Pause, Play, X, Check, RotateCw, Clock, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { BatchProgress, ImageStatus, ImageStatusState } from '@/lib/batch';
 
 interface ProcessingOverlayProps {
   stage: 'scanning' | 'extracting' | 'validating' | 'complete';
-  progress?: { current: number; total: number };
+  progress?: BatchProgress | null;
+  statuses?: { id: string; name: string; status: ImageStatus }[];
+  paused?: boolean;
+  onPause?: () => void;
+  onResume?: () => void;
+  onCancel?: () => void;
 }
 
 const stages = {
@@ -12,10 +20,27 @@ const stages = {
   complete: { icon: FileCheck, label: 'Processing complete!' },
 };
 
-export const ProcessingOverlay = ({ stage, progress }: ProcessingOverlayProps) => {
+const statusStyles: Record<ImageStatusState, { icon: typeof Check; label: string; className: string }> = {
+  queued: { icon: Clock, label: 'Queued', className: 'text-muted-foreground' },
+  running: { icon: Loader2, label: 'Extracting', className: 'text-primary' },
+  retrying: { icon: RotateCw, label: 'Retrying', className: 'text-warning' },
+  done: { icon: Check, label: 'Done', className: 'text-success' },
+  failed: { icon: AlertCircle, label: 'Failed', className: 'text-destructive' },
+};
+
+export const ProcessingOverlay = ({ stage, progress, statuses = [], paused, onPause, onResume, onCancel }: ProcessingOverlayProps) => {
   const { icon: Icon, label } = stages[stage];
   const isBatch = progress && progress.total > 1;
-  const progressPercent = progress ? (progress.current / progress.total) * 100 : 60;
+  const finished = progress ? progress.done + progress.failed : 0;
+  const progressPercent = progress ? (finished / progress.total) * 100 : 60;
+  // A single image's status is worth showing once it has been retried
+  const showStatuses = statuses.length > 1 || statuses.some(({ status }) =>
+    status.state === 'retrying' || status.attempts > 1 || status.gatewayAttempts > 1);
+  const counts = progress && [
+    { label: 'In flight', value: progress.inFlight, className: 'text-primary' },
+    { label: 'Done', value: progress.done, className: 'text-success' },
+    { label: 'Failed', value: progress.failed, className: progress.failed > 0 ? 'text-destructive' : 'text-muted-foreground' },
+  ];
 
   return (
     <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center animate-fade-in">
@@ -24,7 +49,7 @@ export const ProcessingOverlay = ({ stage, progress }: ProcessingOverlayProps) =
           <div className="w-20 h-20 rounded-2xl bg-primary/20 flex items-center justify-center">
             <Icon className="w-10 h-10 text-primary" />
           </div>
-          {stage !== 'complete' && (
+          {stage !== 'complete' && !paused && (
             <div className="absolute -top-1 -right-1">
               <Loader2 className="w-6 h-6 text-primary animate-spin" />
             </div>
@@ -33,18 +58,52 @@ export const ProcessingOverlay = ({ stage, progress }: ProcessingOverlayProps) =
         
         <div className="text-center">
           <p className="text-lg font-semibold text-foreground mb-2">
-            {isBatch ? `Processing image ${progress.current} of ${progress.total}` : label}
+            {isBatch ? `Processed ${finished} of ${progress.total} images` : label}
           </p>
           <p className="text-sm text-muted-foreground">
             {stage === 'complete' 
               ? 'Your results are ready to view'
-              : isBatch 
-                ? label 
-                : 'Please wait while we process your document'
+              : paused
+                ? 'Paused. Finished results are kept.'
+                : progress?.rateLimited
+                ? 'Rate limited, waiting before sending more...'
+                : isBatch 
+                  ? label 
+                  : 'Please wait while we process your document'
             }
           </p>
         </div>
 
+        {isBatch && (
+          <div className="grid grid-cols-3 gap-6 text-center">
+            {counts.map(({ label, value, className }) => (
+              <div key={label}>
+                <p className={cn("text-xl font-semibold tabular-nums", className)}>{value}</p>
+                <p className="text-xs text-muted-foreground">{label}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {showStatuses && (
+          <div className="w-full max-h-40 overflow-y-auto rounded-lg border border-border divide-y divide-border text-xs">
+            {statuses.map(({ id, name, status }) => {
+              const { icon: StatusIcon, label, className } = statusStyles[status.state];
+              return (
+                <div key={id} className="flex items-center gap-2 px-3 py-1.5">
+                  <StatusIcon className={cn("w-3 h-3 shrink-0", className, status.state === 'running' && "animate-spin")} />
+                  <span className="flex-1 truncate text-foreground">{name}</span>
+                  <span className={cn("shrink-0", className)}>
+                    {label}
+                    {status.attempts > 1 && ` • attempt ${status.attempts}`}
+                    {status.gatewayAttempts > 1 && ` • gateway ×${status.gatewayAttempts}`}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {stage !== 'complete' && (
           <div className="w-full h-2 rounded-full bg-secondary overflow-hidden">
             <div 
@@ -53,6 +112,26 @@ export const ProcessingOverlay = ({ stage, progress }: ProcessingOverlayProps) =
             />
           </div>
         )}
+
+        {stage === 'extracting' && onCancel && (
+          <div className="flex gap-3">
+            {paused ? (
+              <Button variant="default" size="sm" onClick={onResume}>
+                <Play className="w-4 h-4" />
+                Resume
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" onClick={onPause}>
+                <Pause className="w-4 h-4" />
+                Pause
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={onCancel} className="hover:bg-destructive hover:text-destructive-foreground">
+              <X className="w-4 h-4" />
+              Cancel
+            </Button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,110 @@
+import { useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { BoundingBox } from '@/lib/regions';
+import { REGION_LABELS, RegionKind, TemplateRegion } from '@/lib/templates';
+
+interface RegionCanvasProps {
+  src: string;
+  regions: TemplateRegion[];
+  selectedId: string | null;
+  // Called with each new rectangle once the pointer is released
+  onDraw: (box: BoundingBox) => void;
+  onSelect: (id: string) => void;
+}
+
+// Rectangles smaller than this, as a fraction of the sheet, are taken as stray clicks
+const MIN_SIZE = 0.01;
+
+const regionStyles: Record<RegionKind, string> = {
+  'header-field': 'border-primary bg-primary/10 text-primary',
+  'marks-table': 'border-accent bg-accent/10 text-accent',
+  'bubble-digits': 'border-warning bg-warning/10 text-warning',
+  'written-total': 'border-success bg-success/10 text-success',
+};
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+const toBox = (a: { x: number; y: number }, b: { x: number; y: number }): BoundingBox => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+// A sample sheet to draw regions on. Dragging draws a rectangle; clicking one selects it.
+export const RegionCanvas = ({ src, regions, selectedId, onDraw, onSelect }: RegionCanvasProps) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [start, setStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<BoundingBox | null>(null);
+
+  // Pointer position as a fraction of the sheet
+  const pointAt = (e: React.PointerEvent) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0 || e.target !== e.currentTarget) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setStart(pointAt(e));
+    setDraft(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (start) setDraft(toBox(start, pointAt(e)));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!start) return;
+    const box = toBox(start, pointAt(e));
+    setStart(null);
+    setDraft(null);
+    if (box.width >= MIN_SIZE && box.height >= MIN_SIZE) onDraw(box);
+  };
+
+  const position = (box: BoundingBox) => ({
+    left: `${box.x * 100}%`,
+    top: `${box.y * 100}%`,
+    width: `${box.width * 100}%`,
+    height: `${box.height * 100}%`,
+  });
+
+  return (
+    <div className="relative inline-block max-w-full select-none touch-none">
+      <img src={src} alt="Sample sheet" draggable={false} className="block max-w-full h-auto" />
+      <div
+        ref={frameRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => {
+          setStart(null);
+          setDraft(null);
+        }}
+        className="absolute inset-0 cursor-crosshair"
+      >
+        {regions.map(region => (
+          <button
+            key={region.id}
+            type="button"
+            onClick={() => onSelect(region.id)}
+            title={`${REGION_LABELS[region.kind]}: ${region.label}`}
+            className={cn(
+              "absolute rounded-sm border-2 transition-shadow",
+              regionStyles[region.kind],
+              region.id === selectedId && "ring-2 ring-foreground ring-offset-1 ring-offset-background"
+            )}
+            style={position(region.box)}
+          >
+            <span className="absolute -top-5 left-0 max-w-full truncate rounded bg-background/90 px-1 text-[10px] font-medium">
+              {region.label}
+            </span>
+          </button>
+        ))}
+        {draft && (
+          <div className="absolute rounded-sm border-2 border-dashed border-foreground/70 bg-foreground/5" style={position(draft)} />
+        )}
+      </div>
+    </div>
+  );
+};
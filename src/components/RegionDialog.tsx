@@ -0,0 +1,125 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { REGION_KINDS, REGION_LABELS, RegionKind, TemplateRegion } from '@/lib/templates';
+
+const regionSchema = z
+  .object({
+    kind: z.enum(REGION_KINDS as [RegionKind, ...RegionKind[]]),
+    label: z.string().trim().max(60, 'Keep the name under 60 characters'),
+  })
+  .refine(values => values.kind !== 'header-field' || values.label.length > 0, {
+    message: 'Name the header field as it appears on the sheet',
+    path: ['label'],
+  });
+
+export type RegionValues = Pick<TemplateRegion, 'kind' | 'label'>;
+
+const kindHints: Record<RegionKind, string> = {
+  'header-field': 'One field above the table, such as Roll No or Subject. Its name becomes the field name.',
+  'marks-table': 'The whole table, including its header row.',
+  'bubble-digits': 'The grid of bubbles the total is shaded in.',
+  'written-total': 'The box the total is written in by hand.',
+};
+
+interface RegionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The region being edited, or the defaults for a new one
+  initial: RegionValues;
+  isNew: boolean;
+  // Areas other than header fields are named after their kind when left blank
+  onSave: (values: RegionValues) => void;
+  onDelete?: () => void;
+}
+
+// The dialog content unmounts while closed, so the form mounts afresh, from the
+// region it is for, each time the dialog opens
+const RegionForm = ({ onOpenChange, initial, isNew, onSave, onDelete }: Omit<RegionDialogProps, 'open'>) => {
+  const form = useForm<RegionValues>({ resolver: zodResolver(regionSchema), defaultValues: initial });
+  const kind = form.watch('kind');
+
+  const handleSubmit = (values: RegionValues) =>
+    onSave({ kind: values.kind, label: values.label || REGION_LABELS[values.kind] });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <DialogHeader>
+          <DialogTitle>{isNew ? 'New region' : 'Edit region'}</DialogTitle>
+          <DialogDescription>Say what this part of the sheet holds.</DialogDescription>
+        </DialogHeader>
+
+        <FormField
+          control={form.control}
+          name="kind"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Type</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {REGION_KINDS.map(k => (
+                    <SelectItem key={k} value={k}>{REGION_LABELS[k]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>{kindHints[kind]}</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="label"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder={kind === 'header-field' ? 'e.g. Roll No' : REGION_LABELS[kind]} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <DialogFooter className="gap-2">
+          {onDelete && (
+            <Button type="button" variant="outline" onClick={onDelete} className="sm:mr-auto">
+              Delete
+            </Button>
+          )}
+          <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="submit">{isNew ? 'Add region' : 'Save'}</Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+};
+
+export const RegionDialog = ({ open, ...formProps }: RegionDialogProps) => (
+  <Dialog open={open} onOpenChange={formProps.onOpenChange}>
+    <DialogContent>
+      <RegionForm {...formProps} />
+    </DialogContent>
+  </Dialog>
+);
@@ -1,30 +1,83 @@
 import { useRef, useEffect, forwardRef, useImperativeHandle } from 'react';
-
-interface TableRow {
-  qNo: string;
-  a: string;
-  b: string;
-  c: string;
-  total: string;
-}
+import {
+  overallSeverity,
+  Reconciliation,
+  ReconciliationSeverity,
+  RowError,
+  TableRow,
+  templateTotals,
+  TOTAL_LABELS,
+  totalPairsFor,
+  TotalMarks,
+  TotalSource,
+} from '@/lib/extraction';
+import { MarkingScheme, SchemeIssue } from '@/lib/marking-schemes';
+import { ChoiceOutcome } from '@/lib/choice-rules';
+import { FieldCorrection, fieldKey } from '@/lib/corrections';
+import { isLowConfidence } from '@/lib/confidence';
+import { CellState, resolveCellState } from '@/lib/cell-states';
+import { FieldConflict } from '@/lib/consensus';
+import { DocumentTemplate } from '@/lib/templates';
 
 interface ResultCanvasProps {
   headerInfo: Record<string, string>;
   tableData: TableRow[];
-  totalMarks: {
-    calculated: number;
-    written: number;
-    bubbleDigits: number;
-  };
+  totalMarks: TotalMarks;
+  rowErrors: RowError[];
+  reconciliation: Reconciliation;
+  scheme: MarkingScheme;
+  template: DocumentTemplate;
+  schemeIssues: SchemeIssue[];
+  choiceOutcome: ChoiceOutcome;
+  corrections: Record<string, FieldCorrection>;
+  confidence: Record<string, number>;
+  cellStates: Record<string, CellState>;
+  unreadableFields: string[];
+  conflicts: Record<string, FieldConflict>;
   isValid: boolean;
 }
 
+const totalLabels: Record<TotalSource, string> = {
+  calculated: 'Calculated Sum',
+  written: 'Written Total',
+  bubbleDigits: 'Bubble Digits',
+};
+
+// Where each total's label and value go in the validation box, in order
+const totalPositions = [
+  { label: 50, value: 170 },
+  { label: 250, value: 365 },
+  { label: 450, value: 565 },
+];
+
+const severityColors: Record<ReconciliationSeverity, string> = {
+  ok: '#22c55e',
+  warning: '#f59e0b',
+  error: '#ef4444',
+};
+
 export interface ResultCanvasRef {
   downloadImage: (filename?: string) => void;
 }
 
 export const ResultCanvas = forwardRef<ResultCanvasRef, ResultCanvasProps>(
-  ({ headerInfo, tableData, totalMarks, isValid }, ref) => {
+  ({
+    headerInfo,
+    tableData,
+    totalMarks,
+    rowErrors,
+    reconciliation,
+    scheme,
+    template,
+    schemeIssues,
+    choiceOutcome,
+    corrections,
+    confidence,
+    cellStates,
+    unreadableFields,
+    conflicts,
+    isValid,
+  }, ref) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
 
     useImperativeHandle(ref, () => ({
@@ -48,7 +101,13 @@ export const ResultCanvas = forwardRef<ResultCanvasRef, ResultCanvasProps>(
       if (!ctx) return;
 
       const width = 800;
-      const height = 700;
+      // Grow with the content so long marks tables don't push the validation box off the canvas
+      const headerKeys = [
+        ...template.headerFields,
+        ...Object.keys(headerInfo).filter(key => !template.headerFields.includes(key)),
+      ];
+      const headerRows = Math.ceil(headerKeys.length / 2);
+      const height = Math.max(700, 145 + headerRows * 25 + 80 + tableData.length * 28 + 60 + 130 + 50);
       canvas.width = width;
       canvas.height = height;
 
@@ -58,15 +117,48 @@ export const ResultCanvas = forwardRef<ResultCanvasRef, ResultCanvasProps>(
 
       // Header gradient
       const headerGrad = ctx.createLinearGradient(0, 0, width, 80);
-      headerGrad.addColorStop(0, '#14b8a6');
-      headerGrad.addColorStop(1, '#0891b2');
+      headerGrad.addColorStop(0, template.canvas.accent[0]);
+      headerGrad.addColorStop(1, template.canvas.accent[1]);
       ctx.fillStyle = headerGrad;
       ctx.fillRect(0, 0, width, 80);
 
       // Title
       ctx.fillStyle = '#0f1419';
       ctx.font = 'bold 28px Inter, sans-serif';
-      ctx.fillText('OCR Extraction Result', 30, 50);
+      ctx.fillText(template.canvas.title, 30, 50);
+
+      // Dashed amber underline under values the model was unsure of
+      const markLowConfidence = (key: string, text: string, x: number, baseline: number) => {
+        if (corrections[key] || !isLowConfidence(confidence[key])) return;
+        ctx.save();
+        ctx.strokeStyle = '#f59e0b';
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([3, 2]);
+        ctx.beginPath();
+        ctx.moveTo(x, baseline + 4);
+        ctx.lineTo(x + Math.max(ctx.measureText(text).width, 8), baseline + 4);
+        ctx.stroke();
+        ctx.restore();
+      };
+
+      // Draws a marks cell according to its state, in `color` when it holds a mark
+      const drawMarkCell = (key: string, value: string, x: number, baseline: number, color: string) => {
+        const state = corrections[key] ? 'value' : resolveCellState(cellStates, key, value);
+        const text = state === 'illegible' ? `${value}?` : state === 'blank' ? '—' : value || '-';
+        ctx.fillStyle = state === 'illegible' ? '#f59e0b' : state === 'blank' || state === 'struck-through' ? '#64748b' : color;
+        ctx.fillText(text, x, baseline);
+        if (state === 'struck-through') {
+          ctx.save();
+          ctx.strokeStyle = '#64748b';
+          ctx.lineWidth = 1.5;
+          ctx.beginPath();
+          ctx.moveTo(x - 2, baseline - 5);
+          ctx.lineTo(x + ctx.measureText(text).width + 2, baseline - 5);
+          ctx.stroke();
+          ctx.restore();
+        }
+        markLowConfidence(key, text, x, baseline);
+      };
 
       // Document Info Section
       ctx.fillStyle = '#22d3ee';
@@ -76,20 +168,25 @@ export const ResultCanvas = forwardRef<ResultCanvasRef, ResultCanvasProps>(
       ctx.fillStyle = '#94a3b8';
       ctx.font = '12px Inter, sans-serif';
       let y = 145;
-      Object.entries(headerInfo).forEach(([key, value], idx) => {
+      headerKeys.forEach((key, idx) => {
+        const value = headerInfo[key] ?? '';
         const col = idx % 2 === 0 ? 30 : 400;
         if (idx % 2 === 0 && idx > 0) y += 25;
         ctx.fillStyle = '#64748b';
         ctx.fillText(key.toUpperCase() + ':', col, y);
         ctx.fillStyle = '#e2e8f0';
         ctx.fillText(value || '-', col + 100, y);
+        markLowConfidence(fieldKey({ kind: 'header', key }), value || '-', col + 100, y);
       });
 
       // Table Section
       y += 50;
       ctx.fillStyle = '#22d3ee';
       ctx.font = 'bold 14px Inter, sans-serif';
-      ctx.fillText('MARKS TABLE', 30, y);
+      ctx.fillText(template.tableTitle.toUpperCase(), 30, y);
+      ctx.fillStyle = '#64748b';
+      ctx.font = '12px Inter, sans-serif';
+      ctx.fillText(scheme.name, 40 + ctx.measureText(template.tableTitle.toUpperCase()).width * 1.2, y);
 
       // Table header
       y += 30;
@@ -98,60 +195,135 @@ export const ResultCanvas = forwardRef<ResultCanvasRef, ResultCanvasProps>(
       
       ctx.fillStyle = '#94a3b8';
       ctx.font = 'bold 12px Inter, sans-serif';
-      const cols = [50, 200, 320, 440, 600];
-      const headers = ['Q.NO', 'A', 'B', 'C', 'TOTAL'];
-      headers.forEach((h, i) => ctx.fillText(h, cols[i], y));
+      // Spread the template's columns evenly between the key and total columns,
+      // using the total column's space too when the template has none
+      const hasTotalColumn = template.totalColumn !== null;
+      const partStep = (hasTotalColumn ? 400 : 560) / template.columns.length;
+      const partCols = template.columns.map((_, i) => 170 + i * partStep);
+      const totalCol = 600;
+      ctx.fillText(template.keyColumn.toUpperCase(), 50, y);
+      template.columns.forEach((column, i) => ctx.fillText(column.label.toUpperCase(), partCols[i], y));
+      if (hasTotalColumn) ctx.fillText(template.totalColumn.toUpperCase(), totalCol, y);
 
       // Table rows
+      const rowErrorsByIndex = new Map(rowErrors.map(e => [e.rowIndex, e]));
       ctx.font = '14px JetBrains Mono, monospace';
       tableData.forEach((row, idx) => {
         y += 28;
-        if (idx % 2 === 0) {
+        const rowError = rowErrorsByIndex.get(idx);
+        if (rowError) {
+          ctx.fillStyle = '#ef444430';
+          ctx.fillRect(30, y - 18, 740, 28);
+        } else if (idx % 2 === 0) {
           ctx.fillStyle = '#1e293b50';
           ctx.fillRect(30, y - 18, 740, 28);
         }
         ctx.fillStyle = '#e2e8f0';
-        ctx.fillText(row.qNo, cols[0], y);
-        ctx.fillText(row.a || '-', cols[1], y);
-        ctx.fillText(row.b || '-', cols[2], y);
-        ctx.fillText(row.c || '-', cols[3], y);
-        ctx.fillStyle = '#22d3ee';
-        ctx.fillText(row.total || '-', cols[4], y);
+        ctx.fillText(row.qNo, 50, y);
+        markLowConfidence(fieldKey({ kind: 'cell', rowIndex: idx, column: 'qNo' }), row.qNo, 50, y);
+        template.columns.forEach((column, i) => {
+          const key = fieldKey({ kind: 'cell', rowIndex: idx, column: column.key });
+          const value = row.parts[column.key] ?? '';
+          const hasIssue = schemeIssues.some(issue => issue.rowIndex === idx && issue.part === column.key);
+          if (column.kind !== 'text') {
+            drawMarkCell(key, value, partCols[i], y, hasIssue ? '#f59e0b' : '#e2e8f0');
+            return;
+          }
+          ctx.fillStyle = hasIssue ? '#f59e0b' : '#e2e8f0';
+          ctx.fillText(value || '-', partCols[i], y);
+          markLowConfidence(key, value || '-', partCols[i], y);
+        });
+        if (!hasTotalColumn) return;
+        const totalHasIssue = schemeIssues.some(issue => issue.rowIndex === idx && issue.part === null);
+        const isDropped = choiceOutcome.dropped.some(d => d.rowIndex === idx);
+        const totalColor = rowError ? '#ef4444' : totalHasIssue ? '#f59e0b' : isDropped ? '#64748b' : '#22d3ee';
+        drawMarkCell(fieldKey({ kind: 'cell', rowIndex: idx, column: 'total' }), row.total, totalCol, y, totalColor);
+        ctx.fillStyle = totalColor;
+        if (isDropped && !rowError) {
+          ctx.font = '12px Inter, sans-serif';
+          ctx.fillText('not counted', totalCol + 50, y);
+          ctx.font = '14px JetBrains Mono, monospace';
+        }
+        if (rowError) {
+          ctx.font = '12px Inter, sans-serif';
+          ctx.fillText(`expected ${rowError.expected}`, totalCol + 50, y);
+          ctx.font = '14px JetBrains Mono, monospace';
+        }
       });
 
       // Validation Section
       y += 60;
-      const validColor = isValid ? '#22c55e' : '#ef4444';
+      const validColor = severityColors[overallSeverity(isValid, reconciliation)];
       ctx.strokeStyle = validColor;
       ctx.lineWidth = 2;
-      ctx.strokeRect(30, y - 10, 740, 100);
+      ctx.strokeRect(30, y - 10, 740, 130);
       
       ctx.fillStyle = validColor + '20';
-      ctx.fillRect(30, y - 10, 740, 100);
+      ctx.fillRect(30, y - 10, 740, 130);
 
       ctx.fillStyle = validColor;
       ctx.font = 'bold 18px Inter, sans-serif';
       ctx.fillText(isValid ? '✓ VALIDATION PASSED' : '✗ VALIDATION FAILED', 50, y + 25);
-
       ctx.font = '14px Inter, sans-serif';
-      ctx.fillStyle = '#94a3b8';
-      ctx.fillText('Calculated Sum:', 50, y + 55);
-      ctx.fillText('Written Total:', 250, y + 55);
-      ctx.fillText('Bubble Digits:', 450, y + 55);
+      ctx.fillText(reconciliation.summary, 300, y + 25);
+
+      const totalSources = templateTotals(template);
+      totalSources.forEach((source, idx) => {
+        const { label, value: x } = totalPositions[idx];
+        ctx.font = '14px Inter, sans-serif';
+        ctx.fillStyle = '#94a3b8';
+        ctx.fillText(`${totalLabels[source]}:`, label, y + 55);
+        ctx.font = 'bold 20px JetBrains Mono, monospace';
+        ctx.fillStyle = reconciliation.culprit === source ? validColor : '#e2e8f0';
+        ctx.fillText(totalMarks[source].toString(), x, y + 55);
+        if (source !== 'calculated') {
+          markLowConfidence(fieldKey({ kind: 'total', source }), totalMarks[source].toString(), x, y + 55);
+        }
+      });
 
-      ctx.fillStyle = '#e2e8f0';
-      ctx.font = 'bold 20px JetBrains Mono, monospace';
-      ctx.fillText(totalMarks.calculated.toString(), 170, y + 55);
-      ctx.fillText(totalMarks.written.toString(), 365, y + 55);
-      ctx.fillText(totalMarks.bubbleDigits.toString(), 565, y + 55);
+      // Pairwise agreement breakdown
+      ctx.font = '13px Inter, sans-serif';
+      totalPairsFor(totalSources).forEach(({ pair, sources: [a, b] }, idx) => {
+        const agrees = reconciliation.agreements[pair];
+        ctx.fillStyle = agrees ? '#22c55e' : '#ef4444';
+        ctx.fillText(
+          `${agrees ? '✓' : '✗'} ${TOTAL_LABELS[a]} ${agrees ? '=' : '≠'} ${TOTAL_LABELS[b]}`,
+          50 + idx * 200,
+          y + 95
+        );
+      });
+      if (schemeIssues.length > 0) {
+        ctx.fillStyle = '#f59e0b';
+        ctx.fillText(
+          `⚠ ${schemeIssues.length} value${schemeIssues.length > 1 ? 's' : ''} ${template.markingSchemes ? 'over scheme limits' : 'break the rules'}`,
+          600,
+          y + 95
+        );
+      }
+      if (unreadableFields.length > 0) {
+        ctx.fillStyle = '#f59e0b';
+        ctx.fillText(`? ${unreadableFields.length} unreadable, needs a human`, 600, y + 113);
+      }
+      const conflictCount = Object.keys(conflicts).length;
+      if (conflictCount > 0) {
+        ctx.fillStyle = '#f59e0b';
+        ctx.fillText(`⇄ ${conflictCount} value${conflictCount > 1 ? 's' : ''} the two readings disagree on`, 50, y + 113);
+      }
 
       // Footer
       ctx.fillStyle = '#475569';
       ctx.font = '11px Inter, sans-serif';
-      ctx.fillText('Generated by OCR Document Extractor', 30, height - 20);
+      const correctionCount = Object.keys(corrections).length;
+      ctx.fillText(
+        correctionCount > 0
+          ? `Generated by OCR Document Extractor • ${correctionCount} value${correctionCount > 1 ? 's' : ''} corrected by reviewer`
+          : 'Generated by OCR Document Extractor',
+        30,
+        height - 20
+      );
       ctx.fillText(new Date().toLocaleString(), width - 180, height - 20);
 
-    }, [headerInfo, tableData, totalMarks, isValid]);
+    }, [headerInfo, tableData, totalMarks, rowErrors, reconciliation, scheme, template, schemeIssues, choiceOutcome, corrections, confidence, cellStates, unreadableFields, conflicts, isValid]);
 
     return (
       <canvas 
@@ -0,0 +1,160 @@
+import { ChevronLeft, ChevronRight, FileQuestion, FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { ExtractionResult, resultSourceKey } from '@/lib/extraction';
+import { lowConfidenceCount } from '@/lib/confidence';
+
+export type ReviewOrder = 'upload' | 'confidence';
+
+interface ResultNavigationProps {
+  results: ExtractionResult[];
+  // Indexes into results, in the order the reviewer should see them
+  queue: number[];
+  currentIndex: number;
+  onSelect: (index: number) => void;
+  order: ReviewOrder;
+  onOrderChange: (order: ReviewOrder) => void;
+  lowConfidenceOnly: boolean;
+  onLowConfidenceOnlyChange: (value: boolean) => void;
+  // Images auto-detect set aside, shown as their own bucket after the sheets
+  unclassifiedCount: number;
+  viewingUnclassified: boolean;
+  onShowUnclassified: () => void;
+}
+
+export const ResultNavigation = ({
+  results,
+  queue,
+  currentIndex,
+  onSelect,
+  order,
+  onOrderChange,
+  lowConfidenceOnly,
+  onLowConfidenceOnlyChange,
+  unclassifiedCount,
+  viewingUnclassified,
+  onShowUnclassified,
+}: ResultNavigationProps) => {
+  const position = queue.indexOf(currentIndex);
+
+  // The queue keeps pages of one PDF next to each other, so consecutive runs form the groups
+  const groups: number[][] = [];
+  queue.forEach((idx, i) => {
+    const previous = i > 0 ? results[queue[i - 1]] : undefined;
+    if (previous && resultSourceKey(previous) === resultSourceKey(results[idx])) {
+      groups[groups.length - 1].push(idx);
+    } else {
+      groups.push([idx]);
+    }
+  });
+
+  return (
+    <div className="glass rounded-xl p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <Select value={order} onValueChange={value => onOrderChange(value as ReviewOrder)}>
+          <SelectTrigger className="w-56 h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="upload">Upload order</SelectItem>
+            <SelectItem value="confidence">Lowest confidence first</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="low-confidence-only"
+            checked={lowConfidenceOnly}
+            onCheckedChange={onLowConfidenceOnlyChange}
+          />
+          <Label htmlFor="low-confidence-only" className="text-sm text-muted-foreground">
+            Low confidence only
+          </Label>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onSelect(queue[position - 1])}
+          disabled={position <= 0}
+        >
+          <ChevronLeft className="w-4 h-4" />
+          Previous
+        </Button>
+
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          {groups.map(group => {
+            const first = results[group[0]];
+            const dots = group.map(idx => {
+              const r = results[idx];
+              return (
+                <button
+                  key={r.imageId}
+                  onClick={() => onSelect(idx)}
+                  title={r.source ? `${r.source.fileName} • page ${r.source.pageNumber}` : r.imageName}
+                  className={cn(
+                    "w-2.5 h-2.5 rounded-full transition-all",
+                    idx === currentIndex && !viewingUnclassified
+                      ? "bg-primary scale-125"
+                      : r.isValid
+                        ? "bg-success/50 hover:bg-success"
+                        : "bg-destructive/50 hover:bg-destructive",
+                    lowConfidenceCount(r) > 0 && "ring-2 ring-warning ring-offset-1 ring-offset-background"
+                  )}
+                />
+              );
+            });
+
+            if (!first.source) return dots;
+
+            return (
+              <div
+                key={resultSourceKey(first)}
+                className={cn(
+                  "flex items-center gap-2 rounded-full border px-2.5 py-1",
+                  group.includes(currentIndex) && !viewingUnclassified ? "border-primary/50 bg-primary/5" : "border-border"
+                )}
+              >
+                <FileText className="w-3 h-3 text-muted-foreground shrink-0" />
+                <span className="max-w-[8rem] truncate text-xs text-muted-foreground">{first.source.fileName}</span>
+                {dots}
+              </div>
+            );
+          })}
+          {unclassifiedCount > 0 && (
+            <button
+              onClick={onShowUnclassified}
+              className={cn(
+                "flex items-center gap-1.5 rounded-full border px-2.5 py-1 text-xs transition-colors",
+                viewingUnclassified
+                  ? "border-warning/60 bg-warning/10 text-warning"
+                  : "border-border text-muted-foreground hover:text-warning"
+              )}
+            >
+              <FileQuestion className="w-3 h-3" />
+              Unclassified ({unclassifiedCount})
+            </button>
+          )}
+        </div>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onSelect(queue[position + 1])}
+          disabled={position === -1 || position >= queue.length - 1}
+        >
+          Next
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {queue.length === 0 && results.length > 0 && (
+        <p className="text-sm text-muted-foreground text-center">No sheets with low-confidence fields left to review.</p>
+      )}
+    </div>
+  );
+};
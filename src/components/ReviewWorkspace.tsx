@@ -0,0 +1,84 @@
+import { ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import { ScanViewer } from '@/components/ScanViewer';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { BoundingBox } from '@/lib/regions';
+
+interface ReviewPage {
+  src?: string;
+  name: string;
+}
+
+interface ReviewWorkspaceProps {
+  // Scans behind the record; booklets have more than one
+  pages: ReviewPage[];
+  pageIndex: number;
+  onPageChange: (index: number) => void;
+  // Regions on the page currently shown
+  regions: Record<string, BoundingBox>;
+  activeRegion: string | null;
+  onRegionSelect: (key: string) => void;
+  children: ReactNode;
+}
+
+export const ReviewWorkspace = ({
+  pages,
+  pageIndex,
+  onPageChange,
+  regions,
+  activeRegion,
+  onRegionSelect,
+  children,
+}: ReviewWorkspaceProps) => {
+  const isMobile = useIsMobile();
+  const page = pages[pageIndex] ?? pages[0];
+  const viewerProps = { src: page?.src, alt: page?.name ?? '', regions, activeRegion, onRegionSelect };
+
+  const pageTabs = pages.length > 1 && (
+    <div className="flex flex-wrap gap-2">
+      {pages.map((p, idx) => (
+        <Button
+          key={idx}
+          variant={idx === pageIndex ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => onPageChange(idx)}
+          title={p.name}
+        >
+          Page {idx + 1}
+        </Button>
+      ))}
+    </div>
+  );
+
+  if (isMobile) {
+    return (
+      <div className="space-y-6">
+        <div className="space-y-3">
+          {pageTabs}
+          <ScanViewer {...viewerProps} className="h-[60vh]" />
+        </div>
+        {children}
+      </div>
+    );
+  }
+
+  return (
+    <ResizablePanelGroup direction="horizontal" className="!h-[80vh] rounded-2xl">
+      <ResizablePanel defaultSize={50} minSize={25}>
+        {pageTabs ? (
+          <div className="flex h-full flex-col gap-3">
+            {pageTabs}
+            <ScanViewer {...viewerProps} className="h-auto flex-1 min-h-0" />
+          </div>
+        ) : (
+          <ScanViewer {...viewerProps} />
+        )}
+      </ResizablePanel>
+      <ResizableHandle withHandle className="mx-3" />
+      <ResizablePanel defaultSize={50} minSize={30}>
+        <div className="h-full overflow-y-auto pr-1">{children}</div>
+      </ResizablePanel>
+    </ResizablePanelGroup>
+  );
+};
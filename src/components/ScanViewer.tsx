@@ -0,0 +1,221 @@
+import { useEffect, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize2, ImageOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { BoundingBox } from '@/lib/regions';
+
+interface ScanViewerProps {
+  src?: string;
+  alt: string;
+  className?: string;
+  regions?: Record<string, BoundingBox>;
+  activeRegion?: string | null;
+  onRegionSelect?: (key: string) => void;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 6;
+const ZOOM_STEP = 1.25;
+const LOCATE_ZOOM = 2;
+// Pointer travel below this is treated as a click rather than a pan
+const DRAG_THRESHOLD = 4;
+
+// Rounding keeps repeated zoom in/out steps from drifting off exactly 100%
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round(zoom * 100) / 100));
+
+export const ScanViewer = ({ src, alt, className, regions = {}, activeRegion, onRegionSelect }: ScanViewerProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ startX: number; startY: number; originX: number; originY: number } | null>(null);
+  const movedRef = useRef(false);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [isDragging, setIsDragging] = useState(false);
+  // Tagged with the scan it was measured on, so a new scan is not fitted to the last one's size
+  const [naturalSize, setNaturalSize] = useState<{ src: string; width: number; height: number } | null>(null);
+  const [frameSize, setFrameSize] = useState({ width: 0, height: 0 });
+
+  const reset = () => {
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+  };
+
+  // Start every new scan at fit-to-frame
+  useEffect(() => {
+    setZoom(1);
+  }, [src]);
+
+  // Panning only makes sense while zoomed in
+  useEffect(() => {
+    if (zoom === MIN_ZOOM) setOffset({ x: 0, y: 0 });
+  }, [zoom]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setFrameSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // React registers wheel listeners as passive, so preventDefault needs a native listener
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setZoom(z => clampZoom(e.deltaY < 0 ? z * ZOOM_STEP : z / ZOOM_STEP));
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      const dx = e.clientX - drag.startX;
+      const dy = e.clientY - drag.startY;
+      if (Math.abs(dx) + Math.abs(dy) > DRAG_THRESHOLD) movedRef.current = true;
+      setOffset({ x: drag.originX + dx, y: drag.originY + dy });
+    };
+    const handleUp = () => {
+      dragRef.current = null;
+      setIsDragging(false);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+    };
+  }, [isDragging]);
+
+  // The image is sized explicitly so region overlays can be placed in percentages
+  const fitted = naturalSize?.src === src && frameSize.width > 0
+    ? (() => {
+        const scale = Math.min(frameSize.width / naturalSize.width, frameSize.height / naturalSize.height);
+        return { width: naturalSize.width * scale, height: naturalSize.height * scale };
+      })()
+    : null;
+
+  // Read when re-centering, which happens only when the selection changes, not on every zoom or resize
+  const viewRef = useRef({ zoom, fitted });
+  useEffect(() => {
+    viewRef.current = { zoom, fitted };
+  });
+
+  // Bring the located field into view, zooming in if the whole page is showing.
+  // A field on another booklet page waits until that page has loaded and been fitted.
+  const activeBox = activeRegion ? regions[activeRegion] : undefined;
+  const isFitted = fitted !== null;
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!activeBox || !isFitted) return;
+    const nextZoom = Math.max(view.zoom, LOCATE_ZOOM);
+    const centerX = activeBox.x + activeBox.width / 2;
+    const centerY = activeBox.y + activeBox.height / 2;
+    setZoom(nextZoom);
+    setOffset({
+      x: -(centerX - 0.5) * view.fitted.width * nextZoom,
+      y: -(centerY - 0.5) * view.fitted.height * nextZoom,
+    });
+  }, [activeBox, isFitted]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    movedRef.current = false;
+    if (zoom === MIN_ZOOM) return;
+    dragRef.current = { startX: e.clientX, startY: e.clientY, originX: offset.x, originY: offset.y };
+    setIsDragging(true);
+  };
+
+  const zoomBy = (factor: number) => setZoom(z => clampZoom(z * factor));
+
+  return (
+    <div className={cn("relative h-full rounded-xl overflow-hidden border border-border bg-card", className)}>
+      <div
+        ref={containerRef}
+        onPointerDown={handlePointerDown}
+        onDoubleClick={reset}
+        className={cn(
+          "w-full h-full flex items-center justify-center select-none touch-none",
+          zoom > MIN_ZOOM ? "cursor-grab active:cursor-grabbing" : "cursor-zoom-in"
+        )}
+      >
+        {src ? (
+          <div
+            className={cn("relative shrink-0", !fitted && "invisible")}
+            style={{
+              width: fitted?.width,
+              height: fitted?.height,
+              transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})`,
+              transition: isDragging ? 'none' : 'transform 150ms ease-out',
+            }}
+          >
+            <img
+              src={src}
+              alt={alt}
+              draggable={false}
+              onLoad={e => setNaturalSize({
+                src: e.currentTarget.getAttribute('src') ?? '',
+                width: e.currentTarget.naturalWidth,
+                height: e.currentTarget.naturalHeight,
+              })}
+              className="block w-full h-full"
+            />
+            {fitted && Object.entries(regions).map(([key, box]) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => {
+                  if (!movedRef.current) onRegionSelect?.(key);
+                }}
+                className={cn(
+                  "absolute rounded-sm border transition-colors",
+                  key === activeRegion
+                    ? "border-2 border-primary bg-primary/20"
+                    : "border-transparent hover:border-primary/60 hover:bg-primary/10"
+                )}
+                style={{
+                  left: `${box.x * 100}%`,
+                  top: `${box.y * 100}%`,
+                  width: `${box.width * 100}%`,
+                  height: `${box.height * 100}%`,
+                }}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="flex flex-col items-center gap-2 text-muted-foreground">
+            <ImageOff className="w-8 h-8" />
+            <p className="text-sm">Original scan is no longer available</p>
+          </div>
+        )}
+      </div>
+
+      {src && (
+        <div className="absolute bottom-3 right-3 flex items-center gap-1 rounded-lg bg-background/80 backdrop-blur-sm border border-border p-1">
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={zoom === MIN_ZOOM}>
+            <ZoomOut className="w-4 h-4" />
+          </Button>
+          <span className="w-12 text-center text-xs font-mono text-muted-foreground">{Math.round(zoom * 100)}%</span>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => zoomBy(ZOOM_STEP)} disabled={zoom === MAX_ZOOM}>
+            <ZoomIn className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={reset}>
+            <Maximize2 className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,296 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ImagePlus, LayoutTemplate, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import { RegionCanvas } from '@/components/RegionCanvas';
+import { RegionDialog, RegionValues } from '@/components/RegionDialog';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { BoundingBox } from '@/lib/regions';
+import { DocumentTemplate, REGION_LABELS, TemplateRegion } from '@/lib/templates';
+import {
+  buildCustomTemplate,
+  deleteCustomTemplate,
+  loadCustomTemplates,
+  saveCustomTemplate,
+  TemplateDetails,
+} from '@/lib/custom-templates';
+
+const detailsSchema = z.object({
+  name: z.string().trim().min(1, 'Give the template a name').max(60, 'Keep the name under 60 characters'),
+  description: z.string().max(200, 'Keep the description under 200 characters'),
+  documentType: z.string().trim().min(1, 'Say what kind of document this is'),
+  tableTitle: z.string(),
+  keyColumn: z.string(),
+  columns: z
+    .string()
+    .refine(value => value.split(',').some(label => label.trim()), 'List at least one column')
+    .refine(value => value.split(',').filter(label => label.trim()).length <= 20, 'A table can have at most 20 columns'),
+  totalColumn: z.string(),
+});
+
+const defaultDetails: TemplateDetails = {
+  name: '',
+  description: '',
+  documentType: '',
+  tableTitle: 'Marks Table',
+  keyColumn: 'Q.No',
+  columns: '',
+  totalColumn: 'Total',
+};
+
+// What the region dialog is open for: a freshly drawn box, or a region already placed
+type RegionEdit = { box: BoundingBox; regionId?: undefined } | { regionId: string; box?: undefined };
+
+const newRegionId = () => `region-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+interface TemplateDesignerProps {
+  // Called with the template once it is saved to this browser
+  onSaved: (template: DocumentTemplate) => void;
+  // Height of the side-by-side layout on wider screens
+  className?: string;
+}
+
+// Draws a template's regions on a sample sheet. Used in a dialog over the
+// extraction page, so uploads and results there survive a trip to the designer,
+// and on its own route.
+export const TemplateDesigner = ({ onSaved, className }: TemplateDesignerProps) => {
+  const isMobile = useIsMobile();
+  const { toast } = useToast();
+  const [sampleUrl, setSampleUrl] = useState<string | null>(null);
+  const [regions, setRegions] = useState<TemplateRegion[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<RegionEdit | null>(null);
+  const [savedTemplates, setSavedTemplates] = useState(loadCustomTemplates);
+  const form = useForm<TemplateDetails>({ resolver: zodResolver(detailsSchema), defaultValues: defaultDetails });
+
+  // The sample only lives for this session, so its URL is freed when replaced or when leaving
+  useEffect(() => () => {
+    if (sampleUrl) URL.revokeObjectURL(sampleUrl);
+  }, [sampleUrl]);
+
+  const handleSampleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      toast({ title: 'Not an image', description: 'Upload a photo or scan of a blank sheet', variant: 'destructive' });
+      return;
+    }
+    setSampleUrl(URL.createObjectURL(file));
+  };
+
+  const editedRegion = editing?.regionId ? regions.find(r => r.id === editing.regionId) : undefined;
+  const dialogInitial: RegionValues = editedRegion
+    ? { kind: editedRegion.kind, label: editedRegion.label }
+    : { kind: regions.some(r => r.kind === 'marks-table') ? 'header-field' : 'marks-table', label: '' };
+
+  const handleRegionSave = (values: RegionValues) => {
+    if (editing?.box) {
+      const region: TemplateRegion = { id: newRegionId(), ...values, box: editing.box };
+      setRegions(prev => [...prev, region]);
+      setSelectedId(region.id);
+    } else if (editing?.regionId) {
+      setRegions(prev => prev.map(r => (r.id === editing.regionId ? { ...r, ...values } : r)));
+    }
+    setEditing(null);
+  };
+
+  const handleRegionDelete = (id: string) => {
+    setRegions(prev => prev.filter(r => r.id !== id));
+    if (selectedId === id) setSelectedId(null);
+    setEditing(null);
+  };
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    setEditing({ regionId: id });
+  };
+
+  const handleSave = (details: TemplateDetails) => {
+    if (!regions.length) {
+      toast({
+        title: 'No regions drawn',
+        description: 'Draw at least the marks table on the sample sheet',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const template = buildCustomTemplate(details, regions);
+    saveCustomTemplate(template);
+    toast({ title: 'Template saved', description: `${template.name} is now in the Document Template list.` });
+    onSaved(template);
+  };
+
+  const handleTemplateDelete = (id: string) => {
+    deleteCustomTemplate(id);
+    setSavedTemplates(loadCustomTemplates());
+  };
+
+  const textField = (name: keyof TemplateDetails, label: string, placeholder: string, description?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input placeholder={placeholder} {...field} />
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const sheetPanel = (
+    <div className="glass rounded-2xl p-4 h-full flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {sampleUrl ? 'Drag on the sheet to mark a region. Click a region to change it.' : 'Start from a blank copy of the sheet.'}
+        </p>
+        <Button variant="outline" size="sm" asChild>
+          <label className="cursor-pointer">
+            <ImagePlus className="w-4 h-4 mr-2" />
+            {sampleUrl ? 'Replace sample' : 'Upload sample'}
+            <input type="file" accept="image/*" className="sr-only" onChange={handleSampleSelect} />
+          </label>
+        </Button>
+      </div>
+      <div className="flex-1 min-h-0 overflow-auto rounded-lg border border-border bg-muted/30 p-2">
+        {sampleUrl ? (
+          <RegionCanvas
+            src={sampleUrl}
+            regions={regions}
+            selectedId={selectedId}
+            onDraw={box => setEditing({ box })}
+            onSelect={handleSelect}
+          />
+        ) : (
+          <div className="h-full min-h-[40vh] flex flex-col items-center justify-center gap-2 text-muted-foreground">
+            <LayoutTemplate className="w-10 h-10" />
+            <p className="text-sm">No sample sheet yet</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  const detailsPanel = (
+    <div className="h-full overflow-y-auto pr-1 space-y-6">
+      <div className="glass rounded-2xl p-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSave)} className="space-y-4">
+            {textField('name', 'Name', 'e.g. Lab Record Sheet')}
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="Shown under the template picker" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {textField('documentType', 'Document type', 'e.g. lab record sheet', 'Used in the prompt: "This is a …"')}
+            <div className="grid sm:grid-cols-2 gap-4">
+              {textField('tableTitle', 'Table title', 'Marks Table')}
+              {textField('keyColumn', 'Row label column', 'Q.No')}
+            </div>
+            {textField('columns', 'Columns', 'e.g. Part A, Part B, Part C', 'Comma-separated, left to right, without the row label or total')}
+            {textField('totalColumn', 'Total column', 'Total', 'Leave blank if rows have no total')}
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-foreground">Regions</p>
+              {regions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">None drawn yet.</p>
+              ) : (
+                <div className="rounded-lg border border-border divide-y divide-border">
+                  {regions.map(region => (
+                    <button
+                      key={region.id}
+                      type="button"
+                      onClick={() => handleSelect(region.id)}
+                      className="w-full flex items-center justify-between gap-3 px-3 py-2 text-sm text-left hover:bg-muted/50"
+                    >
+                      <span className="font-medium text-foreground truncate">{region.label}</span>
+                      <span className="text-xs text-muted-foreground shrink-0">{REGION_LABELS[region.kind]}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <Button type="submit" className="w-full">
+              <Save className="w-4 h-4 mr-2" />
+              Save Template
+            </Button>
+          </form>
+        </Form>
+      </div>
+
+      {savedTemplates.length > 0 && (
+        <div className="glass rounded-2xl p-6 space-y-3">
+          <h2 className="text-sm font-medium text-foreground">Saved in this browser</h2>
+          <div className="rounded-lg border border-border divide-y divide-border">
+            {savedTemplates.map(t => (
+              <div key={t.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium text-foreground truncate">{t.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {t.columns.length} column{t.columns.length === 1 ? '' : 's'}, {t.regions?.length ?? 0} region
+                    {t.regions?.length === 1 ? '' : 's'}
+                  </p>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => handleTemplateDelete(t.id)} title={`Delete ${t.name}`}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <>
+      {isMobile ? (
+        <div className="space-y-6">
+          <div className="h-[60vh]">{sheetPanel}</div>
+          {detailsPanel}
+        </div>
+      ) : (
+        <ResizablePanelGroup direction="horizontal" className={cn("!h-[80vh] rounded-2xl", className)}>
+          <ResizablePanel defaultSize={60} minSize={35}>
+            {sheetPanel}
+          </ResizablePanel>
+          <ResizableHandle withHandle className="mx-3" />
+          <ResizablePanel defaultSize={40} minSize={25}>
+            {detailsPanel}
+          </ResizablePanel>
+        </ResizablePanelGroup>
+      )}
+
+      <RegionDialog
+        open={editing !== null}
+        onOpenChange={open => !open && setEditing(null)}
+        initial={dialogInitial}
+        isNew={!editedRegion}
+        onSave={handleRegionSave}
+        onDelete={editedRegion ? () => handleRegionDelete(editedRegion.id) : undefined}
+      />
+    </>
+  );
+};
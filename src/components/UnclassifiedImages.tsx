@@ -0,0 +1,69 @@
+import { FileQuestion } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { UnclassifiedImage } from '@/lib/booklets';
+import { allTemplates, findAnyTemplate } from '@/lib/templates';
+
+interface UnclassifiedImagesProps {
+  images: UnclassifiedImage[];
+  // Preview URLs by image id
+  previews: Record<string, string | undefined>;
+  // Reads the image again as the picked template
+  onAssign: (imageId: string, templateId: string) => void;
+  disabled?: boolean;
+}
+
+export const UnclassifiedImages = ({ images, previews, onAssign, disabled }: UnclassifiedImagesProps) => (
+  <div className="glass rounded-2xl p-6 border border-warning/30 space-y-4">
+    <div className="flex items-center gap-3">
+      <div className="w-10 h-10 rounded-xl bg-warning/20 flex items-center justify-center">
+        <FileQuestion className="w-5 h-5 text-warning" />
+      </div>
+      <div>
+        <h3 className="text-lg font-semibold text-foreground">
+          {images.length} unclassified image{images.length === 1 ? '' : 's'}
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Auto-detect could not match {images.length === 1 ? 'this image' : 'these images'} to a template with enough
+          confidence, so {images.length === 1 ? 'it was' : 'they were'} not read. Pick a template to read one as.
+        </p>
+      </div>
+    </div>
+
+    <div className="rounded-lg border border-border divide-y divide-border">
+      {images.map(image => {
+        const closest = image.classification?.templateId ? findAnyTemplate(image.classification.templateId) : undefined;
+        return (
+          <div key={image.imageId} className="flex flex-wrap items-center gap-4 px-4 py-3 text-sm">
+            {previews[image.imageId] && (
+              <img
+                src={previews[image.imageId]}
+                alt={image.imageName}
+                className="w-12 h-16 object-cover rounded border border-border shrink-0"
+              />
+            )}
+            <div className="min-w-0 flex-1 space-y-1">
+              <p className="font-medium text-foreground truncate">{image.imageName}</p>
+              <p className="text-xs text-muted-foreground">{image.reason}</p>
+              {closest && image.classification && (
+                <Badge variant="outline" className="text-xs">
+                  Closest: {closest.name} ({Math.round(image.classification.confidence * 100)}%)
+                </Badge>
+              )}
+            </div>
+            <Select onValueChange={templateId => onAssign(image.imageId, templateId)} disabled={disabled}>
+              <SelectTrigger className="w-56 h-9">
+                <SelectValue placeholder="Read as…" />
+              </SelectTrigger>
+              <SelectContent>
+                {allTemplates().map(t => (
+                  <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
@@ -0,0 +1,188 @@
+import { abortableSleep } from '@/lib/retry';
+
+// Thrown by a batch task when extract-document answers 429, so the pool can
+// slow down instead of counting the image as failed
+export class RateLimitError extends Error {
+  constructor(message = 'Rate limit exceeded') {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+export interface BatchProgress {
+  total: number;
+  inFlight: number;
+  done: number;
+  failed: number;
+  // True while every worker is holding off after a 429
+  rateLimited: boolean;
+}
+
+export type ImageStatusState = 'queued' | 'running' | 'retrying' | 'done' | 'failed';
+
+// What the overlay shows for each image in a running batch
+export interface ImageStatus {
+  state: ImageStatusState;
+  // Client-to-function attempts so far
+  attempts: number;
+  // Function-to-gateway attempts reported for the latest call
+  gatewayAttempts?: number;
+}
+
+// Skipped tasks were never finished because the batch was cancelled
+export type PoolOutcome<R> =
+  | { status: 'done'; value: R }
+  | { status: 'failed'; error: unknown }
+  | { status: 'skipped' };
+
+export type BatchState = 'running' | 'paused' | 'cancelled';
+
+// Lets the page pause, resume or cancel a running pool. Pausing and
+// cancelling both abort the calls in flight; paused work is queued again.
+export class BatchController {
+  state: BatchState = 'running';
+  private abortController = new AbortController();
+  private waiters: (() => void)[] = [];
+
+  get signal() {
+    return this.abortController.signal;
+  }
+
+  get paused() {
+    return this.state === 'paused';
+  }
+
+  get cancelled() {
+    return this.state === 'cancelled';
+  }
+
+  pause() {
+    if (this.state !== 'running') return;
+    this.state = 'paused';
+    this.abortController.abort();
+    this.abortController = new AbortController();
+  }
+
+  resume() {
+    if (this.state !== 'paused') return;
+    this.state = 'running';
+    this.wake();
+  }
+
+  cancel() {
+    if (this.state === 'cancelled') return;
+    this.state = 'cancelled';
+    this.abortController.abort();
+    this.wake();
+  }
+
+  // Resolves once the batch is resumed or cancelled
+  whilePaused(): Promise<void> {
+    if (this.state !== 'paused') return Promise.resolve();
+    return new Promise(resolve => this.waiters.push(resolve));
+  }
+
+  private wake() {
+    this.waiters.forEach(resolve => resolve());
+    this.waiters = [];
+  }
+}
+
+export interface PoolOptions {
+  concurrency: number;
+  onProgress?: (progress: BatchProgress) => void;
+  controller?: BatchController;
+}
+
+export const DEFAULT_CONCURRENCY = 4;
+export const CONCURRENCY_OPTIONS = [1, 2, 4, 6, 8];
+
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 30000;
+// An image that keeps hitting the limit after this many waits is given up on
+const MAX_RATE_LIMIT_RETRIES = 5;
+
+// Runs task over every item with at most `concurrency` calls in flight.
+// Outcomes come back in the order of items. A rate-limited task is put back at the front of the
+// queue and all workers wait out a shared cooldown, which doubles with each
+// consecutive 429. Workers stay on while any task is in flight, since it may
+// yet be put back, and pausing or cancelling cuts the cooldown short.
+export const runPool = async <T, R>(
+  items: T[],
+  task: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+  { concurrency, onProgress, controller = new BatchController() }: PoolOptions
+): Promise<PoolOutcome<R>[]> => {
+  const outcomes: PoolOutcome<R>[] = items.map(() => ({ status: 'skipped' }));
+  const queue = items.map((_, index) => index);
+  const rateLimitRetries = new Array(items.length).fill(0);
+  const progress: BatchProgress = { total: items.length, inFlight: 0, done: 0, failed: 0, rateLimited: false };
+  let cooldownUntil = 0;
+  let consecutiveRateLimits = 0;
+
+  // Workers with nothing queued wait here for a task in flight to settle
+  let idle: (() => void)[] = [];
+  const settled = () => new Promise<void>(resolve => idle.push(resolve));
+  const wakeIdle = () => {
+    idle.forEach(resolve => resolve());
+    idle = [];
+  };
+
+  const report = () => onProgress?.({ ...progress, rateLimited: cooldownUntil > Date.now() });
+
+  const worker = async () => {
+    while ((queue.length > 0 || progress.inFlight > 0) && !controller.cancelled) {
+      if (controller.paused) {
+        report();
+        await controller.whilePaused();
+        continue;
+      }
+
+      const wait = cooldownUntil - Date.now();
+      if (wait > 0) {
+        report();
+        // Pausing or cancelling aborts the signal, and the loop takes it from there
+        await abortableSleep(wait, controller.signal).catch(() => undefined);
+        continue;
+      }
+
+      if (queue.length === 0) {
+        await settled();
+        continue;
+      }
+
+      const index = queue.shift();
+      const { signal } = controller;
+      progress.inFlight++;
+      report();
+
+      try {
+        outcomes[index] = { status: 'done', value: await task(items[index], index, signal) };
+        consecutiveRateLimits = 0;
+        progress.done++;
+      } catch (error) {
+        if (signal.aborted) {
+          // Interrupted by pause or cancel rather than failed; a paused task runs again on resume
+          if (!controller.cancelled) queue.unshift(index);
+        } else if (error instanceof RateLimitError && rateLimitRetries[index] < MAX_RATE_LIMIT_RETRIES) {
+          rateLimitRetries[index]++;
+          consecutiveRateLimits++;
+          const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (consecutiveRateLimits - 1));
+          cooldownUntil = Math.max(cooldownUntil, Date.now() + delay);
+          queue.unshift(index);
+        } else {
+          console.error(`Batch task ${index + 1} failed:`, error);
+          outcomes[index] = { status: 'failed', error };
+          progress.failed++;
+        }
+      } finally {
+        progress.inFlight--;
+        report();
+        wakeIdle();
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return outcomes;
+};
@@ -0,0 +1,179 @@
+import { CellState } from '@/lib/cell-states';
+import { FieldConflict } from '@/lib/consensus';
+import { fieldKey, FieldPath } from '@/lib/corrections';
+import { JsonRecovery, TableRow } from '@/lib/extraction';
+import { normalizeQNo } from '@/lib/marking-schemes';
+import { isBlank } from '@/lib/marks';
+import { ImageSource } from '@/lib/pdf';
+import { BoundingBox } from '@/lib/regions';
+import { Classification } from '@/lib/templates';
+import { JSON_RECOVERIES } from '@shared/extraction-schema';
+
+// One scan that contributed to a record
+export interface ScanPage {
+  imageId: string;
+  imageName: string;
+}
+
+// What extract-document read from a single scan, before pages are merged
+export interface PageExtraction extends ScanPage {
+  source?: ImageSource;
+  // Template and marking scheme the page was read with; a different one needs a fresh read
+  templateId: string;
+  schemeId: string;
+  // How auto-detect placed the page, or null when the template was chosen
+  classification: Classification | null;
+  headerInfo: Record<string, string>;
+  tableData: TableRow[];
+  written: number;
+  bubbleDigits: number;
+  regions: Record<string, BoundingBox>;
+  confidence: Record<string, number>;
+  cellStates: Record<string, CellState>;
+  conflicts: Record<string, FieldConflict>;
+  consensusReaders: [string, string] | null;
+  recovery: JsonRecovery;
+  warnings: string[];
+}
+
+// A scan auto-detect could not place, set aside until a reviewer picks its template
+export interface UnclassifiedImage extends ScanPage {
+  unclassified: true;
+  classification: Classification | null;
+  reason: string;
+}
+
+export interface MergedPages {
+  headerInfo: Record<string, string>;
+  tableData: TableRow[];
+  totals: { written: number; bubbleDigits: number };
+  regions: Record<string, BoundingBox>;
+  confidence: Record<string, number>;
+  cellStates: Record<string, CellState>;
+  conflicts: Record<string, FieldConflict>;
+  // Index into the page list for every field that came with a region or score
+  regionPages: Record<string, number>;
+  recovery: JsonRecovery;
+  warnings: string[];
+}
+
+// Items sharing a documentId belong to one booklet; the rest stand alone.
+// Documents keep the position of their first page, and pages keep upload order.
+export const groupByDocument = <T extends { id: string; documentId?: string }>(items: T[]): T[][] => {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const key = item.documentId ?? item.id;
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  });
+  return [...groups.values()];
+};
+
+// Combines the pages of one booklet into a single sheet. Header fields and
+// totals take the first page that has them, and a question split across
+// pages is joined by question number, filling blanks from later pages.
+export const mergePages = (pages: PageExtraction[]): MergedPages => {
+  const merged: MergedPages = {
+    headerInfo: {},
+    tableData: [],
+    totals: { written: 0, bubbleDigits: 0 },
+    regions: {},
+    confidence: {},
+    cellStates: {},
+    conflicts: {},
+    regionPages: {},
+    recovery: 'none',
+    warnings: [],
+  };
+
+  const take = (pageIndex: number, from: FieldPath, to: FieldPath) => {
+    const page = pages[pageIndex];
+    const fromKey = fieldKey(from);
+    const toKey = fieldKey(to);
+    // The value now comes from this page, so an earlier page's region, score
+    // and state no longer describe it
+    if (page.regions[fromKey]) {
+      merged.regions[toKey] = page.regions[fromKey];
+    } else {
+      delete merged.regions[toKey];
+    }
+    if (page.confidence[fromKey] !== undefined) {
+      merged.confidence[toKey] = page.confidence[fromKey];
+    } else {
+      delete merged.confidence[toKey];
+    }
+    if (page.regions[fromKey] || page.confidence[fromKey] !== undefined) {
+      merged.regionPages[toKey] = pageIndex;
+    } else {
+      delete merged.regionPages[toKey];
+    }
+    if (page.cellStates[fromKey]) {
+      merged.cellStates[toKey] = page.cellStates[fromKey];
+    } else {
+      delete merged.cellStates[toKey];
+    }
+    if (page.conflicts[fromKey]) {
+      merged.conflicts[toKey] = { ...page.conflicts[fromKey], path: to };
+    } else {
+      delete merged.conflicts[toKey];
+    }
+  };
+
+  pages.forEach((page, pageIndex) => {
+    if (JSON_RECOVERIES.indexOf(page.recovery) > JSON_RECOVERIES.indexOf(merged.recovery)) {
+      merged.recovery = page.recovery;
+    }
+    // Booklet warnings name the page they came from
+    merged.warnings.push(...page.warnings.map(w => (pages.length > 1 ? `Page ${pageIndex + 1}: ${w}` : w)));
+
+    Object.entries(page.headerInfo).forEach(([key, value]) => {
+      if (isBlank(value) || !isBlank(merged.headerInfo[key] ?? '')) return;
+      merged.headerInfo[key] = value;
+      take(pageIndex, { kind: 'header', key }, { kind: 'header', key });
+    });
+
+    page.tableData.forEach((row, rowIndex) => {
+      const existingIndex = isBlank(row.qNo)
+        ? -1
+        : merged.tableData.findIndex(r => normalizeQNo(r.qNo) === normalizeQNo(row.qNo));
+
+      if (existingIndex === -1) {
+        const newIndex = merged.tableData.length;
+        merged.tableData.push({ ...row, parts: { ...row.parts } });
+        ['qNo', ...Object.keys(row.parts), 'total'].forEach(column =>
+          take(pageIndex, { kind: 'cell', rowIndex, column }, { kind: 'cell', rowIndex: newIndex, column })
+        );
+        return;
+      }
+
+      const existing = merged.tableData[existingIndex];
+      const fill = (column: string, current: string, incoming: string) => {
+        if (!isBlank(current) || isBlank(incoming)) return current;
+        take(pageIndex, { kind: 'cell', rowIndex, column }, { kind: 'cell', rowIndex: existingIndex, column });
+        return incoming;
+      };
+      Object.entries(row.parts).forEach(([part, value]) => {
+        existing.parts[part] = fill(part, existing.parts[part] ?? '', value);
+      });
+      existing.total = fill('total', existing.total, row.total);
+    });
+
+    (['written', 'bubbleDigits'] as const).forEach(source => {
+      if (merged.totals[source] !== 0 || page[source] === 0) return;
+      merged.totals[source] = page[source];
+      take(pageIndex, { kind: 'total', source }, { kind: 'total', source });
+    });
+  });
+
+  return merged;
+};
+
+// Name shown for a record: the scan itself, or the first page of a booklet
+export const documentName = (pages: ScanPage[]) =>
+  pages.length > 1 ? `${pages[0].imageName} + ${pages.length - 1} more page${pages.length > 2 ? 's' : ''}` : pages[0].imageName;
+
+// Regions belonging to one page of a record, for drawing over that scan
+export const regionsOnPage = (
+  regions: Record<string, BoundingBox>,
+  regionPages: Record<string, number>,
+  pageIndex: number
+) => Object.fromEntries(Object.entries(regions).filter(([key]) => (regionPages[key] ?? 0) === pageIndex));
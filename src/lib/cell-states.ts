@@ -0,0 +1,40 @@
+import { flattenFieldMap } from '@/lib/field-map';
+import { isBlank, isMarkValue, parseMark } from '@/lib/marks';
+import { CELL_STATES, CellState } from '@shared/extraction-schema';
+
+export type { CellState };
+
+export const CELL_STATE_LABELS: Record<CellState, string> = {
+  value: 'Mark',
+  blank: 'Not attempted',
+  zero: 'Zero',
+  illegible: 'Illegible',
+  'struck-through': 'Struck through',
+};
+
+// Models write the state a few different ways; anything unknown is left to inference
+export const parseCellState = (raw: unknown): CellState | null => {
+  if (typeof raw !== 'string') return null;
+  const value = raw.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  if (value === 'struck' || value === 'crossed-out') return 'struck-through';
+  if (value === 'unreadable') return 'illegible';
+  return CELL_STATES.find(state => state === value) ?? null;
+};
+
+export const parseCellStates = (rawStates: unknown, columns: string[]): Record<string, CellState> =>
+  flattenFieldMap(rawStates, columns, parseCellState);
+
+export const inferCellState = (value: string): CellState => {
+  if (isBlank(value)) return 'blank';
+  return isMarkValue(value) && parseMark(value) === 0 ? 'zero' : 'value';
+};
+
+// Only illegible and struck-through need the model's word for it; blank, zero
+// and value always follow what is in the cell, so an edited value stays truthful.
+export const resolveCellState = (states: Record<string, CellState>, key: string, value: string): CellState => {
+  const reported = states[key];
+  return reported === 'illegible' || reported === 'struck-through' ? reported : inferCellState(value);
+};
+
+// Marks that add up: struck-through and illegible cells contribute nothing
+export const countsTowardsTotal = (state: CellState) => state === 'value' || state === 'zero';
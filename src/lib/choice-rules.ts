@@ -0,0 +1,77 @@
+import { ChoiceRule, MarkingScheme, normalizeQNo } from '@/lib/marking-schemes';
+import { isBlank, parseMark, sumMarks } from '@/lib/marks';
+
+interface ChoiceRow {
+  qNo: string;
+  total: string;
+}
+
+export interface DroppedQuestion {
+  rowIndex: number;
+  qNo: string;
+  total: number;
+  reason: string;
+}
+
+export interface ChoiceOutcome {
+  countedRows: number[];
+  dropped: DroppedQuestion[];
+  total: number;
+  explanations: string[];
+}
+
+const ruleCount = (rule: ChoiceRule) => (rule.kind === 'best-of' ? rule.count : 1);
+
+export const describeRule = (rule: ChoiceRule) => {
+  const questions = rule.questions.map(q => `Q${q}`);
+  return rule.kind === 'best-of'
+    ? `Any ${rule.count} of ${questions.join(', ')}`
+    : `Either ${questions.join(' or ')}`;
+};
+
+// Picks which attempted questions count towards the total. Within each rule the
+// highest-scoring attempts are kept, so a student is never penalised for
+// answering extra questions. Rows outside every rule are always counted.
+export const applyChoiceRules = (tableData: ChoiceRow[], scheme: MarkingScheme): ChoiceOutcome => {
+  const countedRows: number[] = [];
+  const dropped: DroppedQuestion[] = [];
+  const explanations: string[] = [];
+  const ruledRows = new Set<number>();
+
+  scheme.choiceRules.forEach(rule => {
+    const ruleQuestions = rule.questions.map(normalizeQNo);
+    const candidates = tableData
+      .map((row, rowIndex) => ({ rowIndex, qNo: row.qNo, total: parseMark(row.total), attempted: !isBlank(row.total) }))
+      .filter(c => ruleQuestions.includes(normalizeQNo(c.qNo)));
+
+    candidates.forEach(c => ruledRows.add(c.rowIndex));
+
+    // Stable sort keeps the earlier question when two attempts tie
+    const attempted = candidates.filter(c => c.attempted).sort((x, y) => y.total - x.total);
+    const count = ruleCount(rule);
+    const kept = attempted.slice(0, count);
+    const extra = attempted.slice(count);
+
+    kept.forEach(c => countedRows.push(c.rowIndex));
+    extra.forEach(c => dropped.push({
+      rowIndex: c.rowIndex,
+      qNo: c.qNo,
+      total: c.total,
+      reason: `Not among the best ${count} for "${describeRule(rule)}"`,
+    }));
+
+    const keptLabel = kept.length > 0 ? `counted Q${kept.map(k => k.qNo).join(', Q')}` : 'nothing attempted';
+    const extraLabel = extra.length > 0 ? `; dropped Q${extra.map(e => e.qNo).join(', Q')}` : '';
+    const shortLabel = kept.length < count ? ` (only ${kept.length} of ${count} attempted)` : '';
+    explanations.push(`${describeRule(rule)}: ${keptLabel}${extraLabel}${shortLabel}`);
+  });
+
+  tableData.forEach((_, rowIndex) => {
+    if (!ruledRows.has(rowIndex)) countedRows.push(rowIndex);
+  });
+  countedRows.sort((x, y) => x - y);
+
+  const total = sumMarks(countedRows.map(rowIndex => tableData[rowIndex].total));
+
+  return { countedRows, dropped, total, explanations };
+};
@@ -0,0 +1,35 @@
+// Decodes, downscales and re-encodes images off the main thread, so adding a
+// stack of phone photos does not freeze the page
+
+import type { CompressRequest, CompressResponse } from '@/lib/compression';
+
+const reply = (message: CompressResponse) => self.postMessage(message);
+
+self.onmessage = async (e: MessageEvent<CompressRequest>) => {
+  const { id, image, maxEdge, quality, crop } = e.data;
+  try {
+    const bitmap = await createImageBitmap(image);
+    // The part of the image to keep, in pixels; all of it unless a crop is asked for
+    const sx = crop ? crop.x * bitmap.width : 0;
+    const sy = crop ? crop.y * bitmap.height : 0;
+    const sw = Math.max(1, crop ? crop.width * bitmap.width : bitmap.width);
+    const sh = Math.max(1, crop ? crop.height * bitmap.height : bitmap.height);
+    const scale = Math.min(1, maxEdge / Math.max(sw, sh));
+    const width = Math.max(1, Math.round(sw * scale));
+    const height = Math.max(1, Math.round(sh * scale));
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser');
+    // Transparent PNGs would otherwise turn black as JPEGs
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(bitmap, sx, sy, sw, sh, 0, 0, width, height);
+    bitmap.close();
+
+    const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+    reply({ id, blob, resized: scale < 1 });
+  } catch (error) {
+    reply({ id, error: error instanceof Error ? error.message : 'Could not decode the image' });
+  }
+};
@@ -0,0 +1,95 @@
+// Phone photos are often larger than extract-document accepts, and far larger
+// than the model needs, so each image is shrunk in the browser right before it
+// is sent. The original stays on the ImageItem for previews and close-ups.
+
+import { TemplateRegion } from '@/lib/templates';
+
+// Longest edge of an uploaded image in pixels
+export const MAX_EDGE_OPTIONS = [1600, 2000, 2400, 3200];
+export const DEFAULT_MAX_EDGE = 2400;
+const JPEG_QUALITY = 0.85;
+
+export interface CompressRequest {
+  id: number;
+  image: Blob;
+  maxEdge: number;
+  quality: number;
+  // Part of the image to keep, normalized like a template region's box
+  crop?: TemplateRegion['box'];
+}
+
+// Either the re-encoded image or why it could not be made
+export interface CompressResponse {
+  id: number;
+  blob?: Blob;
+  // False when the image already fit and was only re-encoded
+  resized?: boolean;
+  error?: string;
+}
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, (response: CompressResponse) => void>();
+
+// One worker serves every image, started on first use
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL('./compress.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<CompressResponse>) => {
+      pending.get(e.data.id)?.(e.data);
+      pending.delete(e.data.id);
+    };
+    // A worker that fails to load would leave every caller waiting, so they all get their original back
+    worker.onerror = e => {
+      pending.forEach((resolve, id) => resolve({ id, error: e.message || 'Image worker failed' }));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+const isSupported = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+const runInWorker = (image: Blob, maxEdge: number, crop?: CompressRequest['crop']): Promise<CompressResponse> =>
+  new Promise(resolve => {
+    const id = nextId++;
+    pending.set(id, resolve);
+    getWorker().postMessage({ id, image, maxEdge, quality: JPEG_QUALITY, crop } satisfies CompressRequest);
+  });
+
+// Downscales an image to maxEdge and re-encodes it as JPEG. An image the
+// browser cannot decode, or that would only grow, is returned as it is.
+export const compressImage = async (file: File, maxEdge = DEFAULT_MAX_EDGE): Promise<File> => {
+  if (!isSupported()) return file;
+
+  const response = await runInWorker(file, maxEdge);
+  if (!response.blob) {
+    console.warn(`Could not compress ${file.name}:`, response.error);
+    return file;
+  }
+  if (!response.resized && response.blob.size >= file.size) return file;
+
+  return new File([response.blob], file.name, { type: 'image/jpeg', lastModified: file.lastModified });
+};
+
+// Cuts part of an image out, no larger than maxEdge, as a JPEG. Null when the
+// browser cannot do it off the main thread or cannot decode the image.
+export const cropImage = async (
+  image: Blob,
+  box: TemplateRegion['box'],
+  maxEdge = DEFAULT_MAX_EDGE
+): Promise<Blob | null> => {
+  if (!isSupported()) return null;
+
+  const response = await runInWorker(image, maxEdge, box);
+  if (!response.blob) console.warn('Could not crop the image:', response.error);
+  return response.blob ?? null;
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
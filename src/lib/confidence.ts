@@ -0,0 +1,31 @@
+import { ExtractionResult } from '@/lib/extraction';
+import { flattenFieldMap } from '@/lib/field-map';
+
+// Fields the model is less sure of than this are flagged for a human look
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+// Accepts 0–1 scores, and 0–100 percentages for models that ignore the instruction
+export const parseConfidenceScore = (raw: unknown): number | null => {
+  const value = typeof raw === 'string' ? parseFloat(raw) : raw;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) return null;
+  if (value <= 1) return value;
+  return value <= 100 ? value / 100 : null;
+};
+
+export const parseConfidence = (rawConfidence: unknown, columns: string[]): Record<string, number> =>
+  flattenFieldMap(rawConfidence, columns, parseConfidenceScore);
+
+export const isLowConfidence = (score: number | undefined) =>
+  score !== undefined && score < LOW_CONFIDENCE_THRESHOLD;
+
+// The weakest reading on the sheet. Fields a reviewer has corrected are
+// trusted, so they no longer drag the sheet into the review queue.
+export const sheetConfidence = (result: ExtractionResult): number | null => {
+  const scores = Object.entries(result.confidence)
+    .filter(([key]) => !result.corrections[key])
+    .map(([, score]) => score);
+  return scores.length > 0 ? Math.min(...scores) : null;
+};
+
+export const lowConfidenceCount = (result: ExtractionResult) =>
+  Object.entries(result.confidence).filter(([key, score]) => !result.corrections[key] && isLowConfidence(score)).length;
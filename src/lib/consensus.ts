@@ -0,0 +1,82 @@
+import { FieldPath, fieldKey } from '@/lib/corrections';
+import { TableRow } from '@/lib/extraction';
+import { normalizeQNo } from '@/lib/marking-schemes';
+import { isBlank, isMarkValue, marksEqual, parseMark } from '@/lib/marks';
+
+// A field the two readings of a sheet disagree on. The first candidate is the
+// one shown in the table until a reviewer picks.
+export interface FieldConflict {
+  path: FieldPath;
+  candidates: [string, string];
+}
+
+// The parts of a page reading that are compared
+export interface SheetReading {
+  headerInfo: Record<string, string>;
+  tableData: TableRow[];
+  written: number;
+  bubbleDigits: number;
+}
+
+const normalizeText = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// "2,5" and "2.5" are the same mark, and "-" and "" are both blank
+export const valuesAgree = (a: string, b: string) => {
+  if (isBlank(a) || isBlank(b)) return isBlank(a) && isBlank(b);
+  if (isMarkValue(a) && isMarkValue(b)) return marksEqual(parseMark(a), parseMark(b));
+  return normalizeText(a) === normalizeText(b);
+};
+
+// Compares two readings field by field and returns every disagreement, keyed
+// by fieldKey() in the first reading. Rows are matched by question number,
+// falling back to position. Header fields only the second reading has are not
+// compared, since models name the same field differently.
+export const compareReadings = (
+  first: SheetReading,
+  second: SheetReading,
+  columns: string[]
+): { conflicts: Record<string, FieldConflict>; unmatchedRows: string[] } => {
+  const conflicts: Record<string, FieldConflict> = {};
+  const compare = (path: FieldPath, a: string, b: string, agree = valuesAgree) => {
+    if (!agree(a, b)) conflicts[fieldKey(path)] = { path, candidates: [a, b] };
+  };
+
+  Object.entries(first.headerInfo).forEach(([key, value]) => {
+    if (key in second.headerInfo) compare({ kind: 'header', key }, value, second.headerInfo[key]);
+  });
+
+  const matched = new Set<number>();
+  first.tableData.forEach((row, rowIndex) => {
+    const byQNo = isBlank(row.qNo)
+      ? -1
+      : second.tableData.findIndex(r => normalizeQNo(r.qNo) === normalizeQNo(row.qNo));
+    const otherIndex = byQNo !== -1 ? byQNo : rowIndex;
+    const other = second.tableData[otherIndex];
+    if (!other || matched.has(otherIndex)) return;
+    matched.add(otherIndex);
+
+    // "Q5" and "5" name the same question
+    compare({ kind: 'cell', rowIndex, column: 'qNo' }, row.qNo, other.qNo, (a, b) => normalizeQNo(a) === normalizeQNo(b));
+    columns.forEach(column =>
+      compare({ kind: 'cell', rowIndex, column }, row.parts[column] ?? '', other.parts[column] ?? '')
+    );
+    compare({ kind: 'cell', rowIndex, column: 'total' }, row.total, other.total);
+  });
+
+  (['written', 'bubbleDigits'] as const).forEach(source => {
+    if (!marksEqual(first[source], second[source])) {
+      conflicts[fieldKey({ kind: 'total', source })] = {
+        path: { kind: 'total', source },
+        candidates: [String(first[source]), String(second[source])],
+      };
+    }
+  });
+
+  // Rows only the second reading found have no cell to flag, so they are named instead
+  const unmatchedRows = second.tableData
+    .map((row, index) => ({ row, index }))
+    .filter(({ row, index }) => !matched.has(index) && !(isBlank(row.total) && Object.values(row.parts).every(isBlank)))
+    .map(({ row, index }) => (row.qNo ? `Q${row.qNo}` : `row ${index + 1}`));
+
+  return { conflicts, unmatchedRows };
+};
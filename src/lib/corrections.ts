@@ -0,0 +1,95 @@
+import { evaluateSheet, ExtractionResult } from '@/lib/extraction';
+import { parseMark } from '@/lib/marks';
+
+export type FieldPath =
+  | { kind: 'header'; key: string }
+  // column is 'qNo', 'total' or one of the scheme's part labels
+  | { kind: 'cell'; rowIndex: number; column: string }
+  | { kind: 'total'; source: 'written' | 'bubbleDigits' };
+
+export interface FieldCorrection {
+  path: FieldPath;
+  original: string;
+  corrected: string;
+}
+
+export const fieldKey = (path: FieldPath) => {
+  switch (path.kind) {
+    case 'header':
+      return `header.${path.key}`;
+    case 'cell':
+      return `cell.${path.rowIndex}.${path.column}`;
+    case 'total':
+      return `total.${path.source}`;
+  }
+};
+
+export const readField = (result: ExtractionResult, path: FieldPath): string => {
+  switch (path.kind) {
+    case 'header':
+      return result.headerInfo[path.key] ?? '';
+    case 'cell': {
+      const row = result.tableData[path.rowIndex];
+      if (!row) return '';
+      if (path.column === 'qNo') return row.qNo;
+      if (path.column === 'total') return row.total;
+      return row.parts[path.column] ?? '';
+    }
+    case 'total':
+      return String(result.totalMarks[path.source]);
+  }
+};
+
+const writeField = (result: ExtractionResult, path: FieldPath, value: string) => {
+  switch (path.kind) {
+    case 'header':
+      return { ...result, headerInfo: { ...result.headerInfo, [path.key]: value } };
+    case 'cell': {
+      const tableData = result.tableData.map((row, rowIndex) => {
+        if (rowIndex !== path.rowIndex) return row;
+        if (path.column === 'qNo') return { ...row, qNo: value };
+        if (path.column === 'total') return { ...row, total: value };
+        return { ...row, parts: { ...row.parts, [path.column]: value } };
+      });
+      return { ...result, tableData };
+    }
+    case 'total':
+      return { ...result, totalMarks: { ...result.totalMarks, [path.source]: parseMark(value) } };
+  }
+};
+
+// Applies a reviewer's correction and re-runs validation. The first AI value
+// seen for a field is kept as the original; correcting a field back to that
+// value drops the correction entirely.
+export const applyCorrection = (result: ExtractionResult, path: FieldPath, value: string): ExtractionResult => {
+  const key = fieldKey(path);
+  const original = result.corrections[key]?.original ?? readField(result, path);
+  const corrections = { ...result.corrections };
+
+  if (value === original) {
+    delete corrections[key];
+  } else {
+    corrections[key] = { path, original, corrected: value };
+  }
+
+  const updated = writeField(result, path, value);
+  const { written, bubbleDigits } = updated.totalMarks;
+  // The reviewer has read the cell, so the model's illegible or struck-through
+  // verdict no longer applies and any disagreement between readings is settled
+  const cellStates = { ...updated.cellStates };
+  delete cellStates[key];
+  const conflicts = { ...updated.conflicts };
+  delete conflicts[key];
+
+  return {
+    ...updated,
+    ...evaluateSheet(updated.tableData, { written, bubbleDigits }, updated.scheme, {
+      template: updated.template,
+      cellStates,
+      conflicts,
+    }),
+    cellStates,
+    conflicts,
+    corrections,
+  };
+};
@@ -0,0 +1,51 @@
+import { cropImage, DEFAULT_MAX_EDGE } from '@/lib/compression';
+import { MAX_CROP_BYTES, TemplateRegion } from '@/lib/templates';
+
+// Scans never line up exactly with the sample sheet a template was drawn on,
+// so each close-up takes in a margin around its region
+const CROP_MARGIN = 0.03;
+// A close-up is not worth sending once it has been shrunk below this
+const MIN_CROP_EDGE = 200;
+
+export interface RegionCrop {
+  regionId: string;
+  imageBase64: string;
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+// Halves the resolution until the close-up fits the size extract-document takes
+const cropWithinLimit = async (image: Blob, box: TemplateRegion['box'], maxEdge: number) => {
+  for (let edge = maxEdge; edge >= MIN_CROP_EDGE; edge = Math.floor(edge / 2)) {
+    const blob = await cropImage(image, box, edge);
+    if (!blob || blob.size <= MAX_CROP_BYTES) return blob;
+  }
+  return null;
+};
+
+// Cuts a template's regions out of a scan in the image worker, each no larger
+// than maxEdge, as data URLs for extract-document. Regions that cannot be cut
+// are left out, and the sheet is read from the full page alone.
+export const cropRegions = async (
+  image: Blob,
+  regions: TemplateRegion[],
+  maxEdge = DEFAULT_MAX_EDGE
+): Promise<RegionCrop[]> => {
+  const crops: RegionCrop[] = [];
+  for (const { id, box } of regions) {
+    const left = Math.max(0, box.x - CROP_MARGIN);
+    const top = Math.max(0, box.y - CROP_MARGIN);
+    const right = Math.min(1, box.x + box.width + CROP_MARGIN);
+    const bottom = Math.min(1, box.y + box.height + CROP_MARGIN);
+
+    const blob = await cropWithinLimit(image, { x: left, y: top, width: right - left, height: bottom - top }, maxEdge);
+    if (blob) crops.push({ regionId: id, imageBase64: await blobToDataUrl(blob) });
+  }
+  return crops;
+};
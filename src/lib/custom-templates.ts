@@ -0,0 +1,102 @@
+import { COLUMN_KEY_REGEX, MAX_COLUMN_KEY_LENGTH } from '@shared/templates';
+import type { DocumentTemplate, RegionKind, TemplateColumn, TemplateRegion } from '@shared/templates';
+
+// Templates drawn in the designer live in this browser only, next to the built-in ones
+const STORAGE_KEY = 'document-templates:custom';
+
+export const CUSTOM_TEMPLATE_PREFIX = 'custom:';
+
+const CUSTOM_ACCENT: [string, string] = ['#8b5cf6', '#6366f1'];
+
+// Anything that does not look like a saved template is dropped, so a bad entry cannot break the app
+const isStoredTemplate = (value: unknown): value is DocumentTemplate => {
+  if (!value || typeof value !== 'object') return false;
+  const t = value as Partial<DocumentTemplate>;
+  return typeof t.id === 'string' && t.id.startsWith(CUSTOM_TEMPLATE_PREFIX) && typeof t.name === 'string' &&
+    Array.isArray(t.columns) && t.columns.length > 0 && Array.isArray(t.headerFields) && Array.isArray(t.rules);
+};
+
+// Templates saved before keys were held to the server's rule get fresh keys
+// from their labels rather than being rejected by extract-document
+const withValidKeys = (template: DocumentTemplate): DocumentTemplate => {
+  if (template.columns.every(c => COLUMN_KEY_REGEX.test(c.key))) return template;
+  const keys = columnKeys(template.columns.map(c => c.label));
+  return { ...template, columns: template.columns.map((c, i) => ({ ...c, key: keys[i] })) };
+};
+
+export const loadCustomTemplates = (): DocumentTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isStoredTemplate).map(withValidKeys) : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeCustomTemplates = (templates: DocumentTemplate[]) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+
+// Replaces a saved template with the same id
+export const saveCustomTemplate = (template: DocumentTemplate) =>
+  storeCustomTemplates([...loadCustomTemplates().filter(t => t.id !== template.id), template]);
+
+export const deleteCustomTemplate = (id: string) =>
+  storeCustomTemplates(loadCustomTemplates().filter(t => t.id !== id));
+
+// What the designer asks for besides the regions
+export interface TemplateDetails {
+  name: string;
+  description: string;
+  documentType: string;
+  tableTitle: string;
+  keyColumn: string;
+  // Column labels, comma-separated, in the order they appear on the sheet
+  columns: string;
+  // Label of the per-row total column; blank when there is none
+  totalColumn: string;
+}
+
+// Row keys have to pass extract-document's column key rule, so they are taken
+// from the labels and cut to fit: "Part A" becomes "part", a repeat "par2"
+export const columnKeys = (labels: string[]) => {
+  const keys: string[] = [];
+  labels.forEach((label, i) => {
+    const base = label.toLowerCase().replace(/[^a-z0-9]/g, '').slice(0, MAX_COLUMN_KEY_LENGTH) || `c${i + 1}`;
+    let key = base;
+    for (let n = 2; keys.includes(key); n++) {
+      key = `${base.slice(0, MAX_COLUMN_KEY_LENGTH - String(n).length)}${n}`;
+    }
+    keys.push(key);
+  });
+  return keys;
+};
+
+export const buildCustomTemplate = (details: TemplateDetails, regions: TemplateRegion[], id?: string): DocumentTemplate => {
+  const labels = details.columns.split(',').map(label => label.trim()).filter(Boolean);
+  const keys = columnKeys(labels);
+  const columns: TemplateColumn[] = labels.map((label, i) => ({ key: keys[i], label, kind: 'mark' }));
+  const totalColumn = details.totalColumn.trim() || null;
+  const has = (kind: RegionKind) => regions.some(r => r.kind === kind);
+
+  return {
+    id: id ?? `${CUSTOM_TEMPLATE_PREFIX}${Date.now().toString(36)}`,
+    name: details.name.trim(),
+    description: details.description.trim() || `Drawn in the template designer with ${regions.length} regions.`,
+    markingSchemes: false,
+    documentType: details.documentType.trim(),
+    instructions: [],
+    headerFields: regions.filter(r => r.kind === 'header-field').map(r => r.label),
+    tableTitle: details.tableTitle.trim() || 'Marks Table',
+    keyColumn: details.keyColumn.trim() || 'Q.No',
+    rowName: '',
+    columns,
+    totalColumn,
+    grandTotals: [
+      ...(has('written-total') ? ['written' as const] : []),
+      ...(has('bubble-digits') ? ['bubbleDigits' as const] : []),
+    ],
+    rules: totalColumn ? [{ kind: 'row-sum' }] : [],
+    canvas: { title: details.name.trim(), accent: CUSTOM_ACCENT },
+    regions,
+  };
+};
@@ -0,0 +1,395 @@
+import { ScanPage } from '@/lib/booklets';
+import { applyChoiceRules, ChoiceOutcome } from '@/lib/choice-rules';
+import { CellState, countsTowardsTotal, resolveCellState } from '@/lib/cell-states';
+import { FieldConflict } from '@/lib/consensus';
+import { FieldCorrection, fieldKey } from '@/lib/corrections';
+import { findQuestion, MarkingScheme, questionMaximum, SchemeIssue } from '@/lib/marking-schemes';
+import { isBlank, isMarkValue, marksEqual, parseMark, sumMarks } from '@/lib/marks';
+import { BoundingBox } from '@/lib/regions';
+import { ImageSource } from '@/lib/pdf';
+import { DEFAULT_TEMPLATE, DocumentTemplate } from '@/lib/templates';
+import type { JsonRecovery } from '@shared/extraction-schema';
+
+export type { JsonRecovery };
+
+export interface TableRow {
+  qNo: string;
+  // Sub-part marks keyed by the marking scheme's part labels
+  parts: Record<string, string>;
+  total: string;
+}
+
+export interface TotalMarks {
+  calculated: number;
+  written: number;
+  bubbleDigits: number;
+}
+
+export interface RowError {
+  rowIndex: number;
+  qNo: string;
+  expected: number;
+  actual: number;
+}
+
+export type TotalSource = keyof TotalMarks;
+
+export type TotalPair = 'calculated-written' | 'calculated-bubbleDigits' | 'written-bubbleDigits';
+
+export type ReconciliationSeverity = 'ok' | 'warning' | 'error';
+
+export interface Reconciliation {
+  // Only pairs of totals the document has
+  agreements: Partial<Record<TotalPair, boolean>>;
+  culprit: TotalSource | null;
+  severity: ReconciliationSeverity;
+  summary: string;
+}
+
+export interface ExtractionResult {
+  headerInfo: Record<string, string>;
+  tableData: TableRow[];
+  totalMarks: TotalMarks;
+  rowErrors: RowError[];
+  reconciliation: Reconciliation;
+  scheme: MarkingScheme;
+  schemeIssues: SchemeIssue[];
+  choiceOutcome: ChoiceOutcome;
+  // Layout the document was read and is validated with, columns resolved
+  template: DocumentTemplate;
+  // Reviewer edits keyed by fieldKey(), keeping the AI's original reading
+  corrections: Record<string, FieldCorrection>;
+  // Where each value sits on the scan, keyed by fieldKey()
+  regions: Record<string, BoundingBox>;
+  // Model confidence from 0 to 1, keyed by fieldKey()
+  confidence: Record<string, number>;
+  // Cell states as reported by the model, keyed by fieldKey(). Only illegible
+  // and struck-through change validation; see resolveCellState().
+  cellStates: Record<string, CellState>;
+  // fieldKey() of every cell or total nobody could read; these need a human
+  unreadableFields: string[];
+  // Fields two consensus readings disagree on, keyed by fieldKey(); a
+  // reviewer's pick resolves them
+  conflicts: Record<string, FieldConflict>;
+  // What produced the two readings, or null when the sheet was read once
+  consensusReaders: [string, string] | null;
+  isValid: boolean;
+  imageId: string;
+  imageName: string;
+  // Every scan merged into this record, in page order
+  pages: ScanPage[];
+  // Which entry in pages each region was found on; missing means the first
+  regionPages: Record<string, number>;
+  // The most involved repair any page needed
+  recovery: JsonRecovery;
+  // Values extract-document or the app had to coerce to fit the response schema
+  warnings: string[];
+  source?: ImageSource;
+}
+
+// Checks that each row's parts add up to the total the examiner wrote.
+// Rows with no parts filled in are skipped, since there is nothing to check.
+export const validateRows = (tableData: TableRow[]): RowError[] => {
+  const errors: RowError[] = [];
+
+  tableData.forEach((row, rowIndex) => {
+    const parts = Object.values(row.parts);
+    if (parts.every(isBlank)) return;
+
+    const expected = sumMarks(parts);
+    const actual = parseMark(row.total);
+    if (!marksEqual(expected, actual) || isBlank(row.total)) {
+      errors.push({ rowIndex, qNo: row.qNo, expected, actual });
+    }
+  });
+
+  return errors;
+};
+
+// Checks that each row's total counts the cells holding one of the given codes,
+// as an attendance register's days-present column does
+export const validateRowCounts = (tableData: TableRow[], values: string[]): RowError[] => {
+  const codes = values.map(v => v.toLowerCase());
+  const errors: RowError[] = [];
+
+  tableData.forEach((row, rowIndex) => {
+    const cells = Object.values(row.parts);
+    if (cells.every(isBlank) && isBlank(row.total)) return;
+
+    const expected = cells.filter(cell => codes.includes(cell.trim().toLowerCase())).length;
+    const actual = parseMark(row.total);
+    if (!marksEqual(expected, actual) || isBlank(row.total)) {
+      errors.push({ rowIndex, qNo: row.qNo, expected, actual });
+    }
+  });
+
+  return errors;
+};
+
+const cellValue = (row: TableRow, column: string) => (column === 'total' ? row.total : row.parts[column] ?? '');
+
+// Checks the template's value rules: allowed codes, required cells and maximums
+export const checkTemplateRules = (tableData: TableRow[], template: DocumentTemplate): SchemeIssue[] => {
+  const issues: SchemeIssue[] = [];
+  const label = (row: TableRow, rowIndex: number, column: string) => {
+    const name = `${template.rowName}${row.qNo || rowIndex + 1}`;
+    const columnName = column === 'total' ? template.totalColumn ?? 'total' : template.columns.find(c => c.key === column)?.label ?? column;
+    return `${name} ${columnName}`;
+  };
+
+  tableData.forEach((row, rowIndex) => {
+    const hasEntries = Object.values(row.parts).some(v => !isBlank(v)) || !isBlank(row.total);
+    const issue = (kind: SchemeIssue['kind'], column: string, max: number | null, message: string) =>
+      issues.push({
+        kind,
+        rowIndex,
+        qNo: row.qNo,
+        part: column === 'total' ? null : column,
+        value: parseMark(cellValue(row, column)),
+        max,
+        message,
+      });
+
+    template.rules.forEach(rule => {
+      switch (rule.kind) {
+        case 'allowed-values': {
+          const allowed = rule.values.map(v => v.toLowerCase());
+          rule.columns.forEach(column => {
+            const value = cellValue(row, column);
+            if (!isBlank(value) && !allowed.includes(value.trim().toLowerCase())) {
+              issue('not-allowed', column, null, `${label(row, rowIndex, column)} is "${value}", expected ${rule.values.join(', ')}`);
+            }
+          });
+          break;
+        }
+        case 'required':
+          if (!hasEntries) break;
+          rule.columns.forEach(column => {
+            if (isBlank(cellValue(row, column))) issue('missing', column, null, `${label(row, rowIndex, column)} is missing`);
+          });
+          break;
+        case 'not-above': {
+          const value = cellValue(row, rule.column);
+          if (isBlank(value)) break;
+          if (!isMarkValue(value)) {
+            issue('impossible', rule.column, null, `${label(row, rowIndex, rule.column)} has an unreadable mark "${value}"`);
+            break;
+          }
+          const maxValue = typeof rule.max === 'number' ? String(rule.max) : cellValue(row, rule.max.column);
+          if (!isMarkValue(maxValue)) break;
+          const max = parseMark(maxValue);
+          if (parseMark(value) > max) {
+            issue('over-limit', rule.column, max, `${label(row, rowIndex, rule.column)} is ${parseMark(value)}, maximum is ${max}`);
+          }
+          break;
+        }
+      }
+    });
+  });
+
+  return issues;
+};
+
+const isImpossibleMark = (value: string) => !isBlank(value) && !isMarkValue(value);
+
+// Checks every mark against the limits the marking scheme allows. Schemes
+// with no questions listed accept any question and only check the grand maximum.
+export const checkSchemeLimits = (
+  tableData: TableRow[],
+  totalMarks: TotalMarks,
+  scheme: MarkingScheme
+): SchemeIssue[] => {
+  const issues: SchemeIssue[] = [];
+  const hasQuestions = scheme.questions.length > 0;
+
+  tableData.forEach((row, rowIndex) => {
+    const question = hasQuestions ? findQuestion(scheme, row.qNo) : undefined;
+    const filledParts = Object.entries(row.parts).filter(([, value]) => !isBlank(value));
+
+    if (hasQuestions && !question) {
+      if (filledParts.length > 0 || !isBlank(row.total)) {
+        issues.push({
+          kind: 'unknown-question',
+          rowIndex,
+          qNo: row.qNo,
+          part: null,
+          value: parseMark(row.total),
+          max: null,
+          message: `Q${row.qNo || rowIndex + 1} is not part of ${scheme.name}`,
+        });
+      }
+      return;
+    }
+
+    filledParts.forEach(([part, raw]) => {
+      const value = parseMark(raw);
+      const label = `Q${row.qNo}${part.toUpperCase()}`;
+
+      if (isImpossibleMark(raw)) {
+        issues.push({ kind: 'impossible', rowIndex, qNo: row.qNo, part, value, max: null, message: `${label} has an unreadable mark "${raw}"` });
+        return;
+      }
+      if (!question) return;
+
+      const max = question.partMax[part];
+      if (max === undefined) {
+        issues.push({ kind: 'impossible', rowIndex, qNo: row.qNo, part, value, max: null, message: `${label} does not exist but has marks` });
+      } else if (value > max) {
+        issues.push({ kind: 'over-limit', rowIndex, qNo: row.qNo, part, value, max, message: `${label} has ${value}, maximum is ${max}` });
+      }
+    });
+
+    if (question && !isBlank(row.total)) {
+      const max = questionMaximum(question);
+      const value = parseMark(row.total);
+      if (value > max) {
+        issues.push({ kind: 'over-limit', rowIndex, qNo: row.qNo, part: null, value, max, message: `Q${row.qNo} total is ${value}, maximum is ${max}` });
+      }
+    }
+  });
+
+  if (scheme.grandMaximum !== null) {
+    const max = scheme.grandMaximum;
+    (['calculated', 'written', 'bubbleDigits'] as TotalSource[]).forEach(source => {
+      const value = totalMarks[source];
+      if (value > max) {
+        issues.push({
+          kind: 'over-limit',
+          rowIndex: null,
+          qNo: '',
+          part: null,
+          value,
+          max,
+          message: `${TOTAL_LABELS[source]} total is ${value}, maximum is ${max}`,
+        });
+      }
+    });
+  }
+
+  return issues;
+};
+
+export const TOTAL_LABELS: Record<TotalSource, string> = {
+  calculated: 'Calculated',
+  written: 'Written',
+  bubbleDigits: 'Bubble',
+};
+
+export const TOTAL_PAIRS: { pair: TotalPair; sources: [TotalSource, TotalSource] }[] = [
+  { pair: 'calculated-written', sources: ['calculated', 'written'] },
+  { pair: 'calculated-bubbleDigits', sources: ['calculated', 'bubbleDigits'] },
+  { pair: 'written-bubbleDigits', sources: ['written', 'bubbleDigits'] },
+];
+
+// Totals a document has: the calculated sum and whatever the template says is written on it
+export const templateTotals = (template: DocumentTemplate): TotalSource[] => ['calculated', ...template.grandTotals];
+
+export const totalPairsFor = (sources: TotalSource[]) =>
+  TOTAL_PAIRS.filter(({ sources: [x, y] }) => sources.includes(x) && sources.includes(y));
+
+const CULPRIT_SUMMARIES: Record<TotalSource, string> = {
+  calculated: 'Marks table mis-added or misread',
+  written: 'Written total miscopied',
+  bubbleDigits: 'Bubble mis-shaded',
+};
+
+// Compares the document's totals pairwise. With all three, when exactly two
+// agree the odd one out is named as the likely culprit; when none agree, or
+// there are only two to compare, there is no safe guess.
+export const reconcileTotals = (
+  totalMarks: TotalMarks,
+  sources: TotalSource[] = ['calculated', 'written', 'bubbleDigits']
+): Reconciliation => {
+  const pairs = totalPairsFor(sources);
+  const agreements: Partial<Record<TotalPair, boolean>> = Object.fromEntries(
+    pairs.map(({ pair, sources: [x, y] }) => [pair, marksEqual(totalMarks[x], totalMarks[y])])
+  );
+
+  const agreeing = pairs.filter(({ pair }) => agreements[pair]);
+
+  if (agreeing.length === pairs.length) {
+    const summary = pairs.length === 0 ? 'No written total to check against' : 'All totals agree';
+    return { agreements, culprit: null, severity: 'ok', summary };
+  }
+
+  if (agreeing.length === 0) {
+    const summary = pairs.length === 1
+      ? `${TOTAL_LABELS[pairs[0].sources[0]]} and ${TOTAL_LABELS[pairs[0].sources[1]].toLowerCase()} totals disagree`
+      : 'All three totals disagree';
+    return { agreements, culprit: null, severity: 'error', summary };
+  }
+
+  const [agreed] = agreeing;
+  const culprit = sources.find(source => !agreed.sources.includes(source));
+
+  return { agreements, culprit, severity: 'warning', summary: CULPRIT_SUMMARIES[culprit] };
+};
+
+// Blanks out cells that must not be added up: struck-through marks were
+// cancelled by the examiner and illegible ones have no trustworthy value.
+const countableTable = (tableData: TableRow[], cellStates: Record<string, CellState>): TableRow[] =>
+  tableData.map((row, rowIndex) => {
+    const countable = (column: string, value: string) =>
+      countsTowardsTotal(resolveCellState(cellStates, fieldKey({ kind: 'cell', rowIndex, column }), value)) ? value : '';
+    return {
+      ...row,
+      parts: Object.fromEntries(Object.entries(row.parts).map(([part, value]) => [part, countable(part, value)])),
+      total: countable('total', row.total),
+    };
+  });
+
+// Builds every derived validation field from the extracted values, so the
+// same rules apply to fresh extractions and re-validated sheets.
+export const evaluateSheet = (
+  tableData: TableRow[],
+  totals: Omit<TotalMarks, 'calculated'>,
+  scheme: MarkingScheme,
+  {
+    template = DEFAULT_TEMPLATE,
+    cellStates = {},
+    conflicts = {},
+  }: {
+    template?: DocumentTemplate;
+    cellStates?: Record<string, CellState>;
+    conflicts?: Record<string, FieldConflict>;
+  } = {}
+) => {
+  const unreadableFields = Object.entries(cellStates)
+    .filter(([, state]) => state === 'illegible')
+    .map(([key]) => key);
+  // A row with an unreadable cell cannot be checked until someone reads it
+  const unreadableRows = new Set(
+    unreadableFields.filter(key => key.startsWith('cell.')).map(key => Number(key.split('.')[1]))
+  );
+  const countable = countableTable(tableData, cellStates);
+
+  // Only the questions the scheme's choice rules select count towards the total
+  const choiceOutcome = applyChoiceRules(countable, scheme);
+  const totalMarks: TotalMarks = { calculated: choiceOutcome.total, ...totals };
+  // Row totals are checked the way the template says they are made up
+  const rowErrors = template.rules
+    .flatMap(rule => {
+      if (rule.kind === 'row-sum') return validateRows(countable);
+      if (rule.kind === 'row-count') return validateRowCounts(countable, rule.values);
+      return [];
+    })
+    .filter(e => !unreadableRows.has(e.rowIndex));
+  const reconciliation = reconcileTotals(totalMarks, templateTotals(template));
+  const schemeIssues = [
+    ...(template.rules.some(rule => rule.kind === 'scheme-limits') ? checkSchemeLimits(countable, totalMarks, scheme) : []),
+    ...checkTemplateRules(countable, template),
+  ];
+  const isValid = reconciliation.severity === 'ok' && rowErrors.length === 0 && schemeIssues.length === 0 &&
+    unreadableFields.length === 0 && Object.keys(conflicts).length === 0;
+
+  return { totalMarks, rowErrors, reconciliation, schemeIssues, choiceOutcome, unreadableFields, isValid };
+};
+
+// Pages rendered from the same PDF share a key; standalone images get their own
+export const resultSourceKey = (result: ExtractionResult) => result.source?.uploadId ?? result.imageId;
+
+// Row and scheme errors alone still fail the sheet even when the three totals agree.
+export const overallSeverity = (isValid: boolean, reconciliation: Reconciliation): ReconciliationSeverity => {
+  if (isValid) return 'ok';
+  return reconciliation.severity === 'ok' ? 'error' : reconciliation.severity;
+};
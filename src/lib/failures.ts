@@ -0,0 +1,100 @@
+import { FunctionsFetchError, FunctionsHttpError, FunctionsRelayError } from '@supabase/supabase-js';
+import { RateLimitError } from '@/lib/batch';
+
+export type FailureCategory =
+  | 'rate-limit'
+  | 'credits'
+  | 'parse'
+  | 'invalid-format'
+  | 'too-large'
+  | 'network'
+  | 'unknown';
+
+export interface ExtractionFailure {
+  imageId: string;
+  imageName: string;
+  category: FailureCategory;
+  // The message extract-document or the browser gave, unedited
+  message: string;
+  // Client-side attempts made before giving up
+  attempts: number;
+}
+
+export const FAILURE_LABELS: Record<FailureCategory, string> = {
+  'rate-limit': 'Rate limit',
+  credits: 'Credits exhausted',
+  parse: 'Parse failure',
+  'invalid-format': 'Invalid format',
+  'too-large': 'Too large',
+  network: 'Network',
+  unknown: 'Unknown',
+};
+
+export class ExtractionError extends Error {
+  category: FailureCategory;
+  // Worth sending again: the request never arrived or the gateway was briefly down
+  transient: boolean;
+
+  constructor(category: FailureCategory, message: string, transient = false) {
+    super(message);
+    this.name = 'ExtractionError';
+    this.category = category;
+    this.transient = transient;
+  }
+}
+
+// Statuses extract-document uses when the gateway, not the request, is at fault
+const TRANSIENT_STATUSES = [502, 503, 504];
+
+// extract-document reports most failures with the same status, so the
+// message it sends back is what tells them apart
+const categoryFromMessage = (message: string): FailureCategory => {
+  const text = message.toLowerCase();
+  if (text.includes('rate limit')) return 'rate-limit';
+  if (text.includes('credits')) return 'credits';
+  if (text.includes('too large')) return 'too-large';
+  if (text.includes('invalid image format') || text.includes('no image provided')) return 'invalid-format';
+  if (text.includes('parse')) return 'parse';
+  return 'unknown';
+};
+
+const readErrorBody = async (response: Response): Promise<string | null> => {
+  try {
+    const body = await response.clone().json();
+    return typeof body?.error === 'string' ? body.error : null;
+  } catch {
+    return null;
+  }
+};
+
+// Turns the error from supabase.functions.invoke into one the batch pool and
+// the failure report understand. Rate limits stay retryable.
+export const toExtractionError = async (error: Error): Promise<Error> => {
+  if (error instanceof FunctionsHttpError) {
+    const response = error.context as Response;
+    const message = (await readErrorBody(response)) ?? error.message;
+    if (response.status === 429) return new RateLimitError(message);
+    if (response.status === 402) return new ExtractionError('credits', message);
+    if (response.status === 413) return new ExtractionError('too-large', message);
+    return new ExtractionError(categoryFromMessage(message), message, TRANSIENT_STATUSES.includes(response.status));
+  }
+  if (error instanceof FunctionsFetchError || error instanceof FunctionsRelayError) {
+    return new ExtractionError('network', error.message, true);
+  }
+  return new ExtractionError(categoryFromMessage(error.message), error.message);
+};
+
+// Rate limits are left to the batch pool, which slows every worker down at once
+export const isTransientError = (error: unknown) =>
+  error instanceof ExtractionError ? error.transient : error instanceof TypeError && /fetch|network/i.test(error.message);
+
+export const describeFailure = (error: unknown): Pick<ExtractionFailure, 'category' | 'message'> => {
+  if (error instanceof ExtractionError) return { category: error.category, message: error.message };
+  if (error instanceof RateLimitError) return { category: 'rate-limit', message: error.message };
+  // fetch rejects with a TypeError when the request never reached the server
+  if (error instanceof TypeError && /fetch|network/i.test(error.message)) {
+    return { category: 'network', message: error.message };
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return { category: categoryFromMessage(message), message };
+};
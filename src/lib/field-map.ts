@@ -0,0 +1,33 @@
+import { fieldKey } from '@/lib/corrections';
+
+const asRecord = (raw: unknown): Record<string, unknown> =>
+  raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+
+// extract-document returns per-field metadata (boxes, confidence) in the same
+// shape as the values themselves. This flattens such a map into entries keyed
+// by fieldKey(), dropping anything parseValue rejects.
+export const flattenFieldMap = <T>(
+  raw: unknown,
+  columns: string[],
+  parseValue: (raw: unknown) => T | null
+): Record<string, T> => {
+  const map = asRecord(raw);
+  const flat: Record<string, T> = {};
+  const add = (key: string, value: unknown) => {
+    const parsed = parseValue(value);
+    if (parsed !== null) flat[key] = parsed;
+  };
+
+  Object.entries(asRecord(map.headerInfo)).forEach(([key, value]) => add(fieldKey({ kind: 'header', key }), value));
+
+  const rows = Array.isArray(map.tableData) ? map.tableData : [];
+  rows.forEach((row, rowIndex) => {
+    const cells = asRecord(row);
+    ['qNo', ...columns, 'total'].forEach(column => add(fieldKey({ kind: 'cell', rowIndex, column }), cells[column]));
+  });
+
+  add(fieldKey({ kind: 'total', source: 'written' }), map.writtenTotal);
+  add(fieldKey({ kind: 'total', source: 'bubbleDigits' }), map.bubbleDigits);
+
+  return flat;
+};
@@ -0,0 +1,104 @@
+import { addMarks } from '@/lib/marks';
+
+export interface QuestionScheme {
+  qNo: string;
+  // Maximum marks for each sub-part this question has, keyed by part label
+  partMax: Record<string, number>;
+}
+
+// "Answer any N of these" and "either Qx or Qy" groups. Questions outside
+// every rule are compulsory and always counted.
+export type ChoiceRule =
+  | { kind: 'best-of'; questions: string[]; count: number }
+  | { kind: 'either-or'; questions: string[] };
+
+export interface MarkingScheme {
+  id: string;
+  name: string;
+  description: string;
+  partLabels: string[];
+  // An empty list means any question numbers are accepted without limits
+  questions: QuestionScheme[];
+  choiceRules: ChoiceRule[];
+  grandMaximum: number | null;
+  // Model extract-document should read these sheets with, instead of its default
+  model?: string;
+}
+
+export type SchemeIssueKind = 'over-limit' | 'impossible' | 'unknown-question' | 'not-allowed' | 'missing';
+
+export interface SchemeIssue {
+  kind: SchemeIssueKind;
+  rowIndex: number | null;
+  qNo: string;
+  part: string | null;
+  value: number;
+  max: number | null;
+  message: string;
+}
+
+const uniformQuestions = (count: number, partMax: Record<string, number>): QuestionScheme[] =>
+  Array.from({ length: count }, (_, i) => ({ qNo: String(i + 1), partMax }));
+
+export const MARKING_SCHEMES: MarkingScheme[] = [
+  {
+    id: 'generic-abc',
+    name: 'Generic A/B/C sheet',
+    description: 'Any number of questions with parts A, B and C. No mark limits.',
+    partLabels: ['a', 'b', 'c'],
+    questions: [],
+    choiceRules: [],
+    grandMaximum: null,
+  },
+  {
+    id: 'internal-30',
+    name: 'Internal assessment (30 marks)',
+    description: '5 questions, A (2) + B (2) + C (2) each.',
+    partLabels: ['a', 'b', 'c'],
+    questions: uniformQuestions(5, { a: 2, b: 2, c: 2 }),
+    choiceRules: [],
+    grandMaximum: 30,
+  },
+  {
+    id: 'semester-70',
+    name: 'Semester exam (70 marks)',
+    description: '5 questions, A (2) + B (4) + C (4) + D (4) each.',
+    partLabels: ['a', 'b', 'c', 'd'],
+    questions: uniformQuestions(5, { a: 2, b: 4, c: 4, d: 4 }),
+    choiceRules: [],
+    grandMaximum: 70,
+  },
+  {
+    id: 'semester-any-5-of-8',
+    name: 'Semester exam, any 5 of 8 (70 marks)',
+    description: '8 questions, A (2) + B (4) + C (4) + D (4) each. Best 5 are counted.',
+    partLabels: ['a', 'b', 'c', 'd'],
+    questions: uniformQuestions(8, { a: 2, b: 4, c: 4, d: 4 }),
+    choiceRules: [{ kind: 'best-of', questions: ['1', '2', '3', '4', '5', '6', '7', '8'], count: 5 }],
+    grandMaximum: 70,
+  },
+  {
+    id: 'unit-test-40',
+    name: 'Unit test with either/or (40 marks)',
+    description: '6 questions, A (4) + B (6) each. Q1 and Q2 compulsory, either Q3 or Q4, either Q5 or Q6.',
+    partLabels: ['a', 'b'],
+    questions: uniformQuestions(6, { a: 4, b: 6 }),
+    choiceRules: [
+      { kind: 'either-or', questions: ['3', '4'] },
+      { kind: 'either-or', questions: ['5', '6'] },
+    ],
+    grandMaximum: 40,
+  },
+];
+
+export const DEFAULT_SCHEME = MARKING_SCHEMES[0];
+
+export const getScheme = (id: string) => MARKING_SCHEMES.find(s => s.id === id) ?? DEFAULT_SCHEME;
+
+export const questionMaximum = (question: QuestionScheme) =>
+  addMarks(Object.values(question.partMax));
+
+export const normalizeQNo = (qNo: string) => qNo.trim().replace(/^q\.?\s*/i, '').toLowerCase();
+
+export const findQuestion = (scheme: MarkingScheme, qNo: string) =>
+  scheme.questions.find(q => normalizeQNo(q.qNo) === normalizeQNo(qNo));
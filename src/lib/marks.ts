@@ -0,0 +1,36 @@
+// Marks are added up as whole hundredths, so half and quarter marks never pick
+// up floating-point drift (0.1 + 0.2 is exactly 0.3 here).
+const UNITS_PER_MARK = 100;
+
+// "2", "2.5", "2,5" (comma decimal separator), ".5", "2½" and "½"
+const MARK_PATTERN = /^(\d*)(?:[.,](\d{1,2}))?(½)?$/;
+
+const toUnits = (value: string): number | null => {
+  const match = value.replace(/\s+/g, '').match(MARK_PATTERN);
+  if (!match) return null;
+  const [, whole, decimals, half] = match;
+  if ((!whole && !decimals && !half) || (decimals && half)) return null;
+  const fraction = half ? UNITS_PER_MARK / 2 : Number((decimals ?? '').padEnd(2, '0'));
+  return Number(whole || 0) * UNITS_PER_MARK + fraction;
+};
+
+export const isBlank = (value: string) => value.trim() === '' || value.trim() === '-';
+
+// True for anything parseMark reads in full, rather than just its leading number
+export const isMarkValue = (value: string) => toUnits(value) !== null;
+
+// Reads a mark as written by an examiner. Text with junk after a number keeps
+// the number ("7/8" is 7) and anything else counts as 0.
+export const parseMark = (value: string) => {
+  const units = toUnits(value) ?? toUnits(value.trim().match(/^\d+(?:[.,]\d{1,2})?/)?.[0] ?? '') ?? 0;
+  return units / UNITS_PER_MARK;
+};
+
+export const markUnits = (mark: number) => Math.round(mark * UNITS_PER_MARK);
+
+export const marksEqual = (a: number, b: number) => markUnits(a) === markUnits(b);
+
+export const addMarks = (marks: number[]) =>
+  marks.reduce((sum, mark) => sum + markUnits(mark), 0) / UNITS_PER_MARK;
+
+export const sumMarks = (values: string[]) => addMarks(values.map(parseMark));
@@ -0,0 +1,72 @@
+import * as pdfjs from 'pdfjs-dist';
+import workerSrc from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+// Where an uploaded image came from when it was rendered from a PDF
+export interface ImageSource {
+  // Shared by the pages of one upload, so two PDFs with the same name stay apart
+  uploadId: string;
+  fileName: string;
+  pageNumber: number;
+  pageCount: number;
+}
+
+export interface PdfPage {
+  file: File;
+  pageNumber: number;
+  pageCount: number;
+}
+
+// Long edge of the rendered page in pixels. Enough for handwriting to stay
+// legible while keeping each page well under the extract-document size limit.
+const TARGET_LONG_EDGE = 2000;
+const JPEG_QUALITY = 0.9;
+
+export const isPdf = (file: File) =>
+  file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to render PDF page'))),
+      'image/jpeg',
+      JPEG_QUALITY
+    );
+  });
+
+// Renders every page of a PDF to its own JPEG file, named after the source
+// file and page number so results can be traced back to the original scan.
+export const splitPdfIntoPages = async (file: File): Promise<PdfPage[]> => {
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const baseName = file.name.replace(/\.pdf$/i, '');
+  const pages: PdfPage[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const unscaled = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: TARGET_LONG_EDGE / Math.max(unscaled.width, unscaled.height) });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas is not supported in this browser');
+
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      const blob = await canvasToBlob(canvas);
+      page.cleanup();
+
+      pages.push({
+        file: new File([blob], `${baseName}-page-${pageNumber}.jpg`, { type: 'image/jpeg' }),
+        pageNumber,
+        pageCount: pdf.numPages,
+      });
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+};
@@ -0,0 +1,30 @@
+import { flattenFieldMap } from '@/lib/field-map';
+
+// Normalized to the image size: 0,0 is the top-left corner and 1,1 the bottom-right
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+// The model returns boxes as [x, y, width, height]. Anything else, or a box
+// with no area, is dropped rather than drawn in the wrong place.
+export const parseBox = (raw: unknown): BoundingBox | null => {
+  if (!Array.isArray(raw) || raw.length !== 4) return null;
+  const values = raw.map(Number);
+  if (values.some(v => !Number.isFinite(v))) return null;
+
+  const [x, y] = values.map(clamp01);
+  const width = Math.min(values[2], 1 - x);
+  const height = Math.min(values[3], 1 - y);
+  if (width <= 0 || height <= 0) return null;
+
+  return { x, y, width, height };
+};
+
+// Keyed by the same fieldKey() used for corrections, so both can be looked up together
+export const parseRegions = (rawBoxes: unknown, columns: string[]): Record<string, BoundingBox> =>
+  flattenFieldMap(rawBoxes, columns, parseBox);
@@ -0,0 +1,49 @@
+import { backoffDelay, RetryOptions } from '@shared/backoff';
+
+export const CLIENT_RETRY: RetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 1500,
+  maxDelayMs: 10000,
+};
+
+// Rejects with the signal's reason as soon as it aborts
+export const abortableSleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+interface WithRetryOptions extends Partial<RetryOptions> {
+  isTransient: (error: unknown) => boolean;
+  // Called before each attempt, starting at 1
+  onAttempt?: (attempt: number) => void;
+  // Called when an attempt failed and another is about to be made
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+  signal?: AbortSignal;
+}
+
+// Runs fn until it succeeds, fails with a non-transient error or runs out of
+// attempts. The wait between attempts is cut short if the signal aborts.
+export const withRetry = async <T>(
+  fn: (attempt: number) => Promise<T>,
+  { isTransient, onAttempt, onRetry, signal, ...overrides }: WithRetryOptions
+): Promise<T> => {
+  const options = { ...CLIENT_RETRY, ...overrides };
+
+  for (let attempt = 1; ; attempt++) {
+    onAttempt?.(attempt);
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (signal?.aborted || attempt >= options.maxAttempts || !isTransient(error)) throw error;
+
+      const delay = backoffDelay(attempt, options);
+      onRetry?.(attempt, delay, error);
+      await abortableSleep(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,96 @@
+import { MARKING_SCHEMES, MarkingScheme } from '@/lib/marking-schemes';
+import { loadCustomTemplates } from '@/lib/custom-templates';
+import {
+  Classification,
+  ColumnKind,
+  DOCUMENT_TEMPLATES,
+  DocumentTemplate,
+  findTemplate,
+  GrandTotalSource,
+  markColumns,
+  MARKS_TEMPLATE,
+  MAX_CROP_BYTES,
+  REGION_KINDS,
+  REGION_LABELS,
+  RegionKind,
+  TemplateColumn,
+  TemplateRegion,
+  TemplateRule,
+} from '@shared/templates';
+
+export type {
+  Classification,
+  ColumnKind,
+  DocumentTemplate,
+  GrandTotalSource,
+  RegionKind,
+  TemplateColumn,
+  TemplateRegion,
+  TemplateRule,
+};
+export { DOCUMENT_TEMPLATES, MAX_CROP_BYTES, REGION_KINDS, REGION_LABELS };
+
+export const DEFAULT_TEMPLATE = MARKS_TEMPLATE;
+
+// The built-in templates followed by those saved from the designer
+export const allTemplates = () => [...DOCUMENT_TEMPLATES, ...loadCustomTemplates()];
+
+export const findAnyTemplate = (id: unknown) => findTemplate(id) ?? loadCustomTemplates().find(t => t.id === id);
+
+export const getTemplate = (id: string) => findAnyTemplate(id) ?? DEFAULT_TEMPLATE;
+
+// Templates without marking schemes get one built from their columns, so the
+// rest of the pipeline can keep reading part labels and limits from a scheme
+const templateScheme = (template: DocumentTemplate): MarkingScheme => ({
+  id: `template:${template.id}`,
+  name: template.name,
+  description: template.description,
+  partLabels: template.columns.map(c => c.key),
+  questions: [],
+  choiceRules: [],
+  grandMaximum: null,
+  model: template.model,
+});
+
+export const templateSchemes = (template: DocumentTemplate): MarkingScheme[] =>
+  template.markingSchemes ? MARKING_SCHEMES : [templateScheme(template)];
+
+// The template as used for one extraction: a marks sheet takes its columns
+// and model from the chosen marking scheme
+export const resolveTemplate = (template: DocumentTemplate, scheme: MarkingScheme): DocumentTemplate =>
+  template.markingSchemes
+    ? { ...template, columns: markColumns(scheme.partLabels), model: scheme.model ?? template.model }
+    : template;
+
+// A template with the scheme to read it with
+export interface TemplateReading {
+  template: DocumentTemplate;
+  scheme: MarkingScheme;
+}
+
+// Marks sheets are read with the given marking scheme, other templates with their own
+export const templateReading = (template: DocumentTemplate, markingScheme: MarkingScheme): TemplateReading => {
+  const scheme = template.markingSchemes ? markingScheme : templateSchemes(template)[0];
+  return { template: resolveTemplate(template, scheme), scheme };
+};
+
+// Classifications come back from the server, so only a well-formed one is kept
+export const parseClassification = (value: unknown): Classification | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  return {
+    templateId: typeof raw.templateId === 'string' ? raw.templateId : null,
+    confidence: typeof raw.confidence === 'number' ? raw.confidence : 0,
+    reason: typeof raw.reason === 'string' ? raw.reason : '',
+    matched: raw.matched === true,
+  };
+};
+
+export const columnKind = (template: DocumentTemplate, column: string): ColumnKind | undefined =>
+  column === 'total' ? (template.totalColumn === null ? undefined : 'mark') : template.columns.find(c => c.key === column)?.kind;
+
+export const columnLabel = (template: DocumentTemplate, column: string) => {
+  if (column === 'qNo') return template.keyColumn;
+  if (column === 'total') return template.totalColumn ?? 'Total';
+  return template.columns.find(c => c.key === column)?.label ?? column.toUpperCase();
+};
@@ -1,58 +1,131 @@
-import { useState, useRef } from 'react';
-import { FileText, Sparkles, Download, RotateCcw, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { FileText, Sparkles, Download, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { ImageUploader, ImageItem } from '@/components/ImageUploader';
 import { ExtractedData } from '@/components/ExtractedData';
+import { FailureReport } from '@/components/FailureReport';
 import { ResultCanvas, ResultCanvasRef } from '@/components/ResultCanvas';
 import { ProcessingOverlay } from '@/components/ProcessingOverlay';
+import { ReviewWorkspace } from '@/components/ReviewWorkspace';
+import { ResultNavigation, ReviewOrder } from '@/components/ResultNavigation';
+import { UnclassifiedImages } from '@/components/UnclassifiedImages';
+import { TemplateDesigner } from '@/components/TemplateDesigner';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { cn } from '@/lib/utils';
-
-interface TableRow {
-  qNo: string;
-  a: string;
-  b: string;
-  c: string;
-  total: string;
-}
-
-interface ExtractionResult {
-  headerInfo: Record<string, string>;
-  tableData: TableRow[];
-  totalMarks: {
-    calculated: number;
-    written: number;
-    bubbleDigits: number;
-  };
-  isValid: boolean;
-  imageId: string;
-  imageName: string;
-}
+import { ExtractionResult, TableRow, evaluateSheet, resultSourceKey } from '@/lib/extraction';
+import { coerceExtraction, ExtractionPayload } from '@shared/extraction-schema';
+import { applyCorrection, FieldPath } from '@/lib/corrections';
+import { parseRegions } from '@/lib/regions';
+import { parseCellStates } from '@/lib/cell-states';
+import { compareReadings } from '@/lib/consensus';
+import { cropRegions } from '@/lib/crops';
+import { compressImage, DEFAULT_MAX_EDGE, MAX_EDGE_OPTIONS } from '@/lib/compression';
+import {
+  BatchController,
+  BatchProgress,
+  CONCURRENCY_OPTIONS,
+  DEFAULT_CONCURRENCY,
+  ImageStatus,
+  RateLimitError,
+  runPool,
+} from '@/lib/batch';
+import { withRetry } from '@/lib/retry';
+import { describeFailure, ExtractionError, ExtractionFailure, isTransientError, toExtractionError } from '@/lib/failures';
+import {
+  documentName,
+  groupByDocument,
+  mergePages,
+  PageExtraction,
+  regionsOnPage,
+  UnclassifiedImage,
+} from '@/lib/booklets';
+import { isLowConfidence, lowConfidenceCount, parseConfidence, sheetConfidence } from '@/lib/confidence';
+import { DEFAULT_SCHEME, MarkingScheme, getScheme } from '@/lib/marking-schemes';
+import {
+  allTemplates,
+  DEFAULT_TEMPLATE,
+  DocumentTemplate,
+  getTemplate,
+  parseClassification,
+  templateReading,
+  TemplateReading,
+  templateSchemes,
+} from '@/lib/templates';
+
+// Identifies a document by its pages, in order
+const documentKey = (imageIds: string[]) => imageIds.join('|');
 
 const Index = () => {
   const [images, setImages] = useState<ImageItem[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingStage, setProcessingStage] = useState<'scanning' | 'extracting' | 'validating' | 'complete'>('scanning');
-  const [processingProgress, setProcessingProgress] = useState({ current: 0, total: 0 });
+  const [processingProgress, setProcessingProgress] = useState<BatchProgress | null>(null);
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  // Images are downscaled to this right before they are sent; the originals are kept
+  const [maxEdge, setMaxEdge] = useState(DEFAULT_MAX_EDGE);
+  // Downscaled copies by image id, made as images are added or the resolution
+  // changes, so the sizes show up front and sending reuses them
+  const uploadsRef = useRef(new Map<string, { maxEdge: number; file: Promise<File> }>());
+  const [uploadSizes, setUploadSizes] = useState<Record<string, { maxEdge: number; size: number }>>({});
+  const [isPaused, setIsPaused] = useState(false);
+  // Reads every sheet twice and flags each field the two readings disagree on
+  const [consensus, setConsensus] = useState(false);
+  // Finds each image's template before reading it, instead of reading every image as the chosen one
+  const [autoDetect, setAutoDetect] = useState(false);
+  // Images auto-detect could not place, and the templates a reviewer picked for them by image id
+  const [unclassified, setUnclassified] = useState<UnclassifiedImage[]>([]);
+  const [templateOverrides, setTemplateOverrides] = useState<Record<string, string>>({});
+  const [viewingUnclassified, setViewingUnclassified] = useState(false);
+  // Pages already read, keyed by image id, so a cancelled batch can pick up where it stopped
+  const [extractedPages, setExtractedPages] = useState<Record<string, PageExtraction>>({});
+  const [failures, setFailures] = useState<ExtractionFailure[]>([]);
+  const [imageStatuses, setImageStatuses] = useState<Record<string, ImageStatus>>({});
+  const batchRef = useRef<BatchController | null>(null);
   const [results, setResults] = useState<ExtractionResult[]>([]);
   const [currentResultIndex, setCurrentResultIndex] = useState(0);
+  const [template, setTemplate] = useState<DocumentTemplate>(DEFAULT_TEMPLATE);
+  const [scheme, setScheme] = useState<MarkingScheme>(DEFAULT_SCHEME);
+  const [activeField, setActiveField] = useState<string | null>(null);
+  const [activePage, setActivePage] = useState(0);
+  const [reviewOrder, setReviewOrder] = useState<ReviewOrder>('upload');
+  const [lowConfidenceOnly, setLowConfidenceOnly] = useState(false);
+  // The designer opens over this page so uploads and results stay put
+  const [designerOpen, setDesignerOpen] = useState(false);
   const resultCanvasRef = useRef<ResultCanvasRef>(null);
   const { toast } = useToast();
 
+  // Records of documents whose pages are unchanged keep the reviewer's
+  // corrections; those merged, split or removed are dropped to be read again
+  const keepUnchangedResults = (nextImages: ImageItem[]) => {
+    const documentKeys = new Set(groupByDocument(nextImages).map(documentImages => documentKey(documentImages.map(img => img.id))));
+    setResults(prev => prev.filter(r => documentKeys.has(documentKey(r.pages.map(p => p.imageId)))));
+    setCurrentResultIndex(0);
+  };
+
   const handleImagesSelect = (newImages: ImageItem[]) => {
     setImages(newImages);
-    setResults([]);
-    setCurrentResultIndex(0);
+    keepUnchangedResults(newImages);
   };
 
   const handleRemoveImage = (id: string) => {
-    setImages(prev => prev.filter(img => img.id !== id));
+    const nextImages = images.filter(img => img.id !== id);
+    setImages(nextImages);
+    keepUnchangedResults(nextImages);
   };
 
   const handleClear = () => {
     setImages([]);
+    uploadsRef.current.clear();
+    setUploadSizes({});
     setResults([]);
+    setExtractedPages({});
+    setFailures([]);
+    setUnclassified([]);
+    setTemplateOverrides({});
     setCurrentResultIndex(0);
   };
 
@@ -65,58 +138,186 @@ const Index = () => {
     });
   };
 
-  const processImage = async (image: ImageItem): Promise<ExtractionResult | null> => {
+  // The image as sent to extract-document, downscaled to the current resolution
+  const uploadFile = useCallback((image: ImageItem) => {
+    const cached = uploadsRef.current.get(image.id);
+    if (cached?.maxEdge === maxEdge) return cached.file;
+    const file = compressImage(image.file, maxEdge);
+    uploadsRef.current.set(image.id, { maxEdge, file });
+    file.then(({ size }) => {
+      // A copy made for a resolution since switched away from is not shown
+      if (uploadsRef.current.get(image.id)?.file !== file) return;
+      setUploadSizes(prev => ({ ...prev, [image.id]: { maxEdge, size } }));
+    });
+    return file;
+  }, [maxEdge]);
+
+  useEffect(() => {
+    images.forEach(image => uploadFile(image));
+  }, [images, uploadFile]);
+
+  // Marks sheets found by auto-detect or picked by a reviewer are read with this scheme
+  const markingScheme = template.markingSchemes ? scheme : DEFAULT_SCHEME;
+
+  // A page read as another template or scheme than it would be now, or with
+  // consensus switched the other way, needs a fresh read
+  const isReusable = (page: PageExtraction, overrides = templateOverrides) => {
+    if ((page.consensusReaders !== null) !== consensus) return false;
+    const schemeFits = !getTemplate(page.templateId).markingSchemes || page.schemeId === markingScheme.id;
+    if (overrides[page.imageId]) return page.templateId === overrides[page.imageId] && schemeFits;
+    if (autoDetect) return page.classification !== null && schemeFits;
+    return page.templateId === template.id && page.schemeId === scheme.id;
+  };
+
+  // The template and scheme a page was read with
+  const pageReading = (page: PageExtraction) => templateReading(getTemplate(page.templateId), getScheme(page.schemeId));
+
+  const updateImageStatus = (id: string, patch: Partial<ImageStatus>) => {
+    setImageStatuses(prev => ({ ...prev, [id]: { ...(prev[id] ?? { state: 'queued', attempts: 0 }), ...patch } }));
+  };
+
+  // Throws on failure; the batch pool decides whether to retry or count it as failed.
+  // With candidates the function first classifies the image among them, and
+  // reads it as the one it matches or not at all.
+  const extractPage = async (
+    image: ImageItem,
+    requested: TemplateReading,
+    candidates: TemplateReading[] | null,
+    consensus: boolean,
+    signal?: AbortSignal
+  ): Promise<PageExtraction | UnclassifiedImage> => {
     try {
-      const imageBase64 = await fileToBase64(image.file);
+      const imageBase64 = await fileToBase64(await uploadFile(image));
+      // Close-ups of a designed template's regions, cut from the full-size original
+      // at up to the upload resolution; with candidates the template is not known yet
+      const regions = requested.template.regions ?? [];
+      const crops = !candidates && regions.length > 0 ? await cropRegions(image.file, regions, maxEdge) : undefined;
       
-      const { data, error } = await supabase.functions.invoke('extract-document', {
-        body: { imageBase64 }
+      const { data, error, response } = await supabase.functions.invoke('extract-document', {
+        body: {
+          imageBase64,
+          scheme: requested.scheme,
+          template: requested.template,
+          consensus: consensus ? {} : undefined,
+          classify: candidates ? { candidates } : undefined,
+          crops,
+        },
+        signal,
       });
 
+      const gatewayAttempts = Number(response?.headers.get('x-gateway-attempts'));
+      if (gatewayAttempts > 0) updateImageStatus(image.id, { gatewayAttempts });
+
       if (error) {
-        throw new Error(error.message || 'Failed to extract document');
+        throw await toExtractionError(error);
       }
 
       if (data.error) {
-        throw new Error(data.error);
+        throw await toExtractionError(new Error(data.error));
       }
 
-      const tableData = (data.tableData || []).map((row: any) => ({
-        qNo: String(row.qNo || ''),
-        a: String(row.a || ''),
-        b: String(row.b || ''),
-        c: String(row.c || ''),
-        total: String(row.total || ''),
-      }));
+      const classification = candidates ? parseClassification(data.classification) : null;
+      if (classification && !classification.matched) {
+        return {
+          unclassified: true,
+          imageId: image.id,
+          imageName: image.file.name,
+          classification,
+          reason: classification.reason || 'Matches none of the templates',
+        };
+      }
+      const { scheme, template } = candidates?.find(c => c.template.id === classification?.templateId) ?? requested;
+
+      // The function already fits its reply to the schema; checking again here
+      // catches an older deployment and keeps the app's types honest
+      const payload = coerceExtraction(data, scheme.partLabels);
+      if (!payload) {
+        throw new ExtractionError('parse', 'Extracted data is not a JSON object');
+      }
+      const extracted = payload.data;
 
-      const calculatedSum = tableData.reduce((sum: number, row: TableRow) => {
-        const total = parseInt(row.total) || 0;
-        return sum + total;
-      }, 0);
+      const toTableData = (rows: ExtractionPayload['tableData']): TableRow[] => rows.map(row => ({
+        qNo: row.qNo,
+        parts: Object.fromEntries(scheme.partLabels.map(label => [label, row[label]])),
+        total: row.total,
+      }));
+      const tableData = toTableData(extracted.tableData);
+      const reading = { headerInfo: extracted.headerInfo, tableData, written: extracted.writtenTotal, bubbleDigits: extracted.bubbleDigits };
 
-      const writtenTotal = parseInt(data.writtenTotal) || 0;
-      const bubbleDigits = parseInt(data.bubbleDigits) || 0;
-      const isValid = calculatedSum === bubbleDigits;
+      // The second consensus reading is only compared, never shown on its own
+      const second = data.consensus ? coerceExtraction(data.consensus.reading, scheme.partLabels) : null;
+      if (data.consensus && !second) {
+        throw new ExtractionError('parse', 'Second consensus reading is not a JSON object');
+      }
+      const comparison = second
+        ? compareReadings(reading, {
+            headerInfo: second.data.headerInfo,
+            tableData: toTableData(second.data.tableData),
+            written: second.data.writtenTotal,
+            bubbleDigits: second.data.bubbleDigits,
+          }, scheme.partLabels)
+        : null;
 
       return {
-        headerInfo: data.headerInfo || {},
-        tableData,
-        totalMarks: {
-          calculated: calculatedSum,
-          written: writtenTotal,
-          bubbleDigits: bubbleDigits,
-        },
-        isValid,
         imageId: image.id,
         imageName: image.file.name,
+        source: image.source,
+        templateId: template.id,
+        schemeId: scheme.id,
+        classification,
+        headerInfo: extracted.headerInfo,
+        tableData,
+        written: extracted.writtenTotal,
+        bubbleDigits: extracted.bubbleDigits,
+        regions: parseRegions(extracted.boxes, scheme.partLabels),
+        confidence: parseConfidence(extracted.confidence, scheme.partLabels),
+        cellStates: parseCellStates(extracted.states, scheme.partLabels),
+        conflicts: comparison?.conflicts ?? {},
+        consensusReaders: second ? data.consensus.readers : null,
+        recovery: extracted.recovery ?? 'none',
+        warnings: [
+          ...payload.warnings,
+          ...(second?.warnings ?? []).map(w => `Second reading: ${w}`),
+          ...(comparison?.unmatchedRows ?? []).map(row => `Only the second reading found ${row}; check the scan for it`),
+        ],
       };
     } catch (error) {
       console.error(`Error processing ${image.file.name}:`, error);
-      return null;
+      throw error;
     }
   };
 
-  const handleExtract = async () => {
+  // Pages are merged before validation, so a booklet is checked as one sheet
+  const buildResult = (pages: PageExtraction[], scheme: MarkingScheme, template: DocumentTemplate): ExtractionResult => {
+    const { headerInfo, tableData, totals, regions, confidence, cellStates, conflicts, regionPages, recovery, warnings } =
+      mergePages(pages);
+    const scanPages = pages.map(({ imageId, imageName }) => ({ imageId, imageName }));
+
+    return {
+      headerInfo,
+      tableData,
+      ...evaluateSheet(tableData, totals, scheme, { template, cellStates, conflicts }),
+      scheme,
+      template,
+      corrections: {},
+      regions,
+      confidence,
+      cellStates,
+      conflicts,
+      consensusReaders: pages[0].consensusReaders,
+      imageId: pages[0].imageId,
+      imageName: documentName(scanPages),
+      pages: scanPages,
+      regionPages,
+      recovery,
+      warnings,
+      source: pages[0].source,
+    };
+  };
+
+  // With targets, only those images are sent (used to retry failures);
+  // otherwise everything not yet extracted with the current scheme is.
+  const runExtraction = async (targets?: ImageItem[], overrides = templateOverrides) => {
     if (images.length === 0) {
       toast({
         title: 'No images selected',
@@ -126,52 +327,224 @@ const Index = () => {
       return;
     }
 
+    const documents = groupByDocument(images);
+
+    // Pages read with these settings carry over; everything else is still to do.
+    // Once nothing is left, extracting again starts the whole batch afresh.
+    const carried = Object.fromEntries(
+      Object.entries(extractedPages).filter(([id, page]) => isReusable(page, overrides) && images.some(img => img.id === id))
+    );
+    const remaining = (targets ?? images).filter(img => !carried[img.id]);
+    const previous = remaining.length > 0 ? carried : {};
+    const pending = remaining.length > 0 ? remaining : images;
+
+    const selected = templateReading(template, scheme);
+    const candidates = autoDetect ? allTemplates().map(t => templateReading(t, markingScheme)) : null;
+    // A template the reviewer picked is read as it is, without classifying the image again
+    const readingFor = (image: ImageItem) =>
+      overrides[image.id] ? templateReading(getTemplate(overrides[image.id]), markingScheme) : selected;
+
+    const controller = new BatchController();
+    batchRef.current = controller;
+    setIsPaused(false);
     setIsProcessing(true);
-    setProcessingStage('scanning');
-    setProcessingProgress({ current: 0, total: images.length });
-    setResults([]);
+    setProcessingStage('extracting');
+    setProcessingProgress({ total: pending.length, inFlight: 0, done: 0, failed: 0, rateLimited: false });
+
+    setImageStatuses(Object.fromEntries(pending.map(image => [image.id, { state: 'queued', attempts: 0 }])));
+
+    // Transient failures are retried per image before the pool sees them
+    const attemptsById: Record<string, number> = {};
+    const extractWithRetry = async (image: ImageItem, signal: AbortSignal) => {
+      try {
+        const candidatesFor = overrides[image.id] ? null : candidates;
+        const page = await withRetry(() => extractPage(image, readingFor(image), candidatesFor, consensus, signal), {
+          isTransient: isTransientError,
+          signal,
+          onAttempt: attempt => {
+            attemptsById[image.id] = attempt;
+            updateImageStatus(image.id, { state: 'running', attempts: attempt });
+          },
+          onRetry: () => updateImageStatus(image.id, { state: 'retrying' }),
+        });
+        updateImageStatus(image.id, { state: 'done' });
+        return page;
+      } catch (error) {
+        // Rate-limited and paused images go back in the queue
+        const requeued = signal.aborted || error instanceof RateLimitError;
+        updateImageStatus(image.id, { state: requeued ? 'queued' : 'failed' });
+        throw error;
+      }
+    };
 
+    // Pages are extracted in parallel, then put back together per document in upload order
+    const outcomes = await runPool(pending, (image, _, signal) => extractWithRetry(image, signal), {
+      concurrency,
+      onProgress: setProcessingProgress,
+      controller,
+    });
+    const pagesById: Record<string, PageExtraction> = { ...previous };
+    const newUnclassified: UnclassifiedImage[] = [];
+    const newFailures: ExtractionFailure[] = [];
+    pending.forEach((image, idx) => {
+      const outcome = outcomes[idx];
+      if (outcome.status === 'done') {
+        if ('unclassified' in outcome.value) newUnclassified.push(outcome.value);
+        else pagesById[image.id] = outcome.value;
+      }
+      if (outcome.status === 'failed') {
+        updateImageStatus(image.id, { state: 'failed' });
+        newFailures.push({
+          imageId: image.id,
+          imageName: image.file.name,
+          attempts: attemptsById[image.id] ?? 1,
+          ...describeFailure(outcome.error),
+        });
+      }
+    });
+    batchRef.current = null;
+    setExtractedPages(pagesById);
+    // Failures outside this run stand until those images are sent again
+    setFailures(prev => [
+      ...prev.filter(f => !pending.some(img => img.id === f.imageId) && !pagesById[f.imageId]),
+      ...newFailures,
+    ]);
+
+    // Images not sent this time stay set aside until they are
+    const keptUnclassified = unclassified.filter(u => !pending.some(img => img.id === u.imageId) && !pagesById[u.imageId]);
     const extractedResults: ExtractionResult[] = [];
     let failedCount = 0;
 
-    for (let i = 0; i < images.length; i++) {
-      setProcessingProgress({ current: i + 1, total: images.length });
-      setProcessingStage(i === 0 ? 'scanning' : 'extracting');
-
-      const result = await processImage(images[i]);
-      if (result) {
-        extractedResults.push(result);
-      } else {
-        failedCount++;
+    documents.forEach(documentImages => {
+      const documentPages = documentImages.map(image => pagesById[image.id]);
+      // A booklet with a missing page would fail reconciliation for the wrong reason
+      if (!documentPages.every(Boolean)) {
+        const setAside = [...keptUnclassified, ...newUnclassified].some(u => documentImages.some(img => img.id === u.imageId));
+        if (!setAside) failedCount++;
+        return;
       }
+      // A booklet is read as one template, so pages detected as different ones go to a person to sort
+      if (documentPages.some(page => page.templateId !== documentPages[0].templateId)) {
+        newUnclassified.push(...documentPages.map(page => ({
+          unclassified: true as const,
+          imageId: page.imageId,
+          imageName: page.imageName,
+          classification: page.classification,
+          reason: 'Pages of this document were read as different templates',
+        })));
+        return;
+      }
+      // Records finished in an earlier run keep the reviewer's corrections
+      const existing = results.find(r => documentKey(r.pages.map(p => p.imageId)) === documentKey(documentImages.map(img => img.id)));
+      const carriedOver = existing && documentImages.every(image => previous[image.id]);
+      const reading = pageReading(documentPages[0]);
+      extractedResults.push(carriedOver ? existing : buildResult(documentPages, reading.scheme, reading.template));
+    });
+    const nextUnclassified = [...keptUnclassified, ...newUnclassified];
+
+    const wasCancelled = controller.cancelled;
+    if (!wasCancelled) {
+      setProcessingStage('validating');
+      await new Promise(r => setTimeout(r, 300));
+      setProcessingStage('complete');
+      await new Promise(r => setTimeout(r, 200));
     }
 
-    setProcessingStage('validating');
-    await new Promise(r => setTimeout(r, 300));
-    setProcessingStage('complete');
-    await new Promise(r => setTimeout(r, 200));
-
     setResults(extractedResults);
+    setUnclassified(nextUnclassified);
     setCurrentResultIndex(0);
+    setViewingUnclassified(extractedResults.length === 0);
     setIsProcessing(false);
 
+    if (wasCancelled) {
+      const left = images.filter(img => !pagesById[img.id]).length;
+      toast({
+        title: 'Extraction cancelled',
+        description: `Kept ${extractedResults.length} finished result${extractedResults.length === 1 ? '' : 's'}. ${left} image${left === 1 ? '' : 's'} left to extract.`,
+      });
+      return;
+    }
+
     const validCount = extractedResults.filter(r => r.isValid).length;
+    const unit = documents.length === images.length ? 'images' : 'documents';
     
-    if (extractedResults.length === 0) {
+    if (extractedResults.length === 0 && nextUnclassified.length === 0) {
       toast({
         title: 'Extraction Failed',
-        description: 'Failed to process any images. Please try again.',
+        description: 'Failed to process any images. See the failure report for the reasons.',
         variant: 'destructive',
       });
     } else {
       toast({
-        title: `Processed ${extractedResults.length} of ${images.length} images`,
-        description: `${validCount} passed validation${failedCount > 0 ? `, ${failedCount} failed to process` : ''}`,
+        title: `Processed ${extractedResults.length} of ${documents.length} ${unit}`,
+        description: [
+          `${validCount} passed validation`,
+          ...(nextUnclassified.length > 0 ? [`${nextUnclassified.length} unclassified`] : []),
+          ...(failedCount > 0 ? [`${failedCount} failed to process (see the failure report)`] : []),
+        ].join(', '),
         variant: validCount === extractedResults.length ? 'default' : 'destructive',
       });
     }
   };
 
+  const handleExtract = () => runExtraction();
+
+  // Each template reads its own columns, so switching also switches to one of its schemes
+  const handleTemplateChange = (id: string) => {
+    const next = getTemplate(id);
+    setTemplate(next);
+    setScheme(templateSchemes(next)[0]);
+  };
+
+  // A template just drawn is the one the reviewer means to read with next
+  const handleTemplateSaved = (saved: DocumentTemplate) => {
+    setDesignerOpen(false);
+    if (!autoDetect) handleTemplateChange(saved.id);
+  };
+
+  // Auto-detect reads marks sheets with the chosen marking scheme, so it starts from the marks template
+  const handleAutoDetectChange = (on: boolean) => {
+    setAutoDetect(on);
+    if (on && !template.markingSchemes) handleTemplateChange(DEFAULT_TEMPLATE.id);
+  };
+
+  // Placing an unclassified image reads it again as the template the reviewer picked
+  const handleAssignTemplate = (imageId: string, templateId: string) => {
+    const image = images.find(img => img.id === imageId);
+    if (!image) return;
+    const overrides = { ...templateOverrides, [imageId]: templateId };
+    setTemplateOverrides(overrides);
+    // A booklet page already read as that template only waits for its other pages to be placed
+    const page = extractedPages[imageId];
+    if (page && isReusable(page, overrides)) return;
+    runExtraction([image], overrides);
+  };
+
+  const handleSelectResult = (index: number) => {
+    setViewingUnclassified(false);
+    setCurrentResultIndex(index);
+  };
+
+  const handleRetryFailed = () => {
+    const failedIds = new Set(failures.map(f => f.imageId));
+    runExtraction(images.filter(img => failedIds.has(img.id)));
+  };
+
+  const handlePause = () => {
+    batchRef.current?.pause();
+    setIsPaused(true);
+  };
+
+  const handleResume = () => {
+    batchRef.current?.resume();
+    setIsPaused(false);
+  };
+
+  const handleCancel = () => {
+    batchRef.current?.cancel();
+    setIsPaused(false);
+  };
+
   const handleDownload = () => {
     resultCanvasRef.current?.downloadImage();
     toast({
@@ -180,21 +553,70 @@ const Index = () => {
     });
   };
 
+  // Downloads the sheets in the review queue. Stepping through sheets the
+  // filter hides would be undone by the jump back to the queue, saving another
+  // sheet's canvas under this one's name.
   const handleDownloadAll = async () => {
+    const queue = reviewQueue;
+    const startIndex = currentResultIndex;
     toast({
       title: 'Downloading all results',
-      description: `Preparing ${results.length} images...`,
+      description: `Preparing ${queue.length} images...`,
     });
     
     // Download each result with a small delay
-    for (let i = 0; i < results.length; i++) {
-      setCurrentResultIndex(i);
+    for (const idx of queue) {
+      setCurrentResultIndex(idx);
       await new Promise(r => setTimeout(r, 300)); // Wait for canvas to render
-      resultCanvasRef.current?.downloadImage(results[i].imageName);
+      resultCanvasRef.current?.downloadImage(results[idx].imageName);
     }
+    setCurrentResultIndex(startIndex);
+  };
+
+  // A highlighted field only makes sense for the sheet it was picked on
+  useEffect(() => {
+    setActiveField(null);
+    setActivePage(0);
+  }, [currentResultIndex]);
+
+  const handleCorrect = (path: FieldPath, value: string) => {
+    setResults(prev => prev.map((r, idx) => (idx === currentResultIndex ? applyCorrection(r, path, value) : r)));
   };
 
   const currentResult = results[currentResultIndex];
+  const visibleFailures = failures.filter(f => images.some(img => img.id === f.imageId));
+  const visibleUnclassified = unclassified.filter(u => images.some(img => img.id === u.imageId));
+  const showUnclassified = visibleUnclassified.length > 0 && (viewingUnclassified || !currentResult);
+  const remainingCount = images.filter(img => !extractedPages[img.id] || !isReusable(extractedPages[img.id])).length;
+  const activeFieldPage = activeField ? currentResult?.regionPages[activeField] : undefined;
+
+  // Locating a field on a booklet turns to the page it was read from
+  useEffect(() => {
+    if (activeFieldPage !== undefined) setActivePage(activeFieldPage);
+  }, [activeFieldPage]);
+
+  const currentConfidence = currentResult ? sheetConfidence(currentResult) : null;
+
+  // Sheets with the shakiest readings come first when reviewing by confidence.
+  // Pages of the same PDF are then kept together, ordered by their first page in the queue.
+  const sortedQueue = results
+    .map((r, idx) => ({ idx, confidence: sheetConfidence(r) ?? 1, needsReview: lowConfidenceCount(r) > 0 }))
+    .filter(entry => !lowConfidenceOnly || entry.needsReview)
+    .sort((x, y) => (reviewOrder === 'confidence' ? x.confidence - y.confidence || x.idx - y.idx : x.idx - y.idx))
+    .map(entry => entry.idx);
+  const queueGroups = new Map<string, number[]>();
+  sortedQueue.forEach(idx => {
+    const key = resultSourceKey(results[idx]);
+    queueGroups.set(key, [...(queueGroups.get(key) ?? []), idx]);
+  });
+  const reviewQueue = [...queueGroups.values()].flat();
+  const queueHead = reviewQueue[0];
+  const isCurrentQueued = reviewQueue.includes(currentResultIndex);
+
+  // Jump to the front of the queue when the current sheet is filtered out
+  useEffect(() => {
+    if (!isCurrentQueued && queueHead !== undefined) setCurrentResultIndex(queueHead);
+  }, [isCurrentQueued, queueHead]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -202,6 +624,13 @@ const Index = () => {
         <ProcessingOverlay 
           stage={processingStage} 
           progress={processingProgress}
+          statuses={images
+            .filter(img => imageStatuses[img.id])
+            .map(img => ({ id: img.id, name: img.file.name, status: imageStatuses[img.id] }))}
+          paused={isPaused}
+          onPause={handlePause}
+          onResume={handleResume}
+          onCancel={handleCancel}
         />
       )}
       
@@ -244,8 +673,129 @@ const Index = () => {
                   images={images}
                   onRemove={handleRemoveImage}
                   onClear={handleClear}
+                  uploadSizes={Object.fromEntries(
+                    Object.entries(uploadSizes)
+                      .filter(([, upload]) => upload.maxEdge === maxEdge)
+                      .map(([id, upload]) => [id, upload.size])
+                  )}
                 />
 
+                <div className="mt-6 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="text-sm font-medium text-foreground">Document Template</label>
+                    <button
+                      type="button"
+                      onClick={() => setDesignerOpen(true)}
+                      disabled={isProcessing}
+                      className="text-xs text-primary hover:underline disabled:opacity-50 disabled:no-underline"
+                    >
+                      Design a template
+                    </button>
+                  </div>
+                  <Select
+                    value={template.id}
+                    onValueChange={handleTemplateChange}
+                    disabled={isProcessing || autoDetect}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {allTemplates().map(t => (
+                        <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">{template.description}</p>
+                </div>
+
+                <div className="mt-4 flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <label htmlFor="auto-detect" className="text-sm font-medium text-foreground">Auto-detect Template</label>
+                    <p className="text-xs text-muted-foreground">
+                      Identifies each image's template before reading it, for mixed piles. Images that match none are set
+                      aside as unclassified.
+                    </p>
+                  </div>
+                  <Switch id="auto-detect" checked={autoDetect} onCheckedChange={handleAutoDetectChange} disabled={isProcessing} />
+                </div>
+
+                {template.markingSchemes && (
+                  <div className="mt-4 space-y-2">
+                    <label className="text-sm font-medium text-foreground">Marking Scheme</label>
+                    <Select
+                      value={scheme.id}
+                      onValueChange={id => setScheme(getScheme(id))}
+                      disabled={isProcessing}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {templateSchemes(template).map(s => (
+                          <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">{scheme.description}</p>
+                  </div>
+                )}
+
+                <div className="mt-4 space-y-2">
+                  <label className="text-sm font-medium text-foreground">Parallel Requests</label>
+                  <Select
+                    value={String(concurrency)}
+                    onValueChange={value => setConcurrency(Number(value))}
+                    disabled={isProcessing}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONCURRENCY_OPTIONS.map(n => (
+                        <SelectItem key={n} value={String(n)}>
+                          {n === 1 ? 'One image at a time' : `${n} images at a time`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">Slows down automatically when the service reports a rate limit.</p>
+                </div>
+
+                <div className="mt-4 space-y-2">
+                  <label className="text-sm font-medium text-foreground">Upload Resolution</label>
+                  <Select
+                    value={String(maxEdge)}
+                    onValueChange={value => setMaxEdge(Number(value))}
+                    disabled={isProcessing}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MAX_EDGE_OPTIONS.map(n => (
+                        <SelectItem key={n} value={String(n)}>
+                          {n} px on the longest side
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Larger photos are scaled down before they are sent; previews and close-ups use the originals. Raise it
+                    for small handwriting.
+                  </p>
+                </div>
+
+                <div className="mt-4 flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <label htmlFor="consensus" className="text-sm font-medium text-foreground">Dual-Model Consensus</label>
+                    <p className="text-xs text-muted-foreground">
+                      Reads every sheet twice and flags each value the two readings disagree on. Slower, for final results.
+                    </p>
+                  </div>
+                  <Switch id="consensus" checked={consensus} onCheckedChange={setConsensus} disabled={isProcessing} />
+                </div>
+
                 <div className="flex gap-3 mt-6">
                   <Button 
                     variant="glow" 
@@ -255,7 +805,9 @@ const Index = () => {
                     disabled={images.length === 0 || isProcessing}
                   >
                     <Sparkles className="w-4 h-4" />
-                    Extract {images.length > 1 ? `All (${images.length})` : 'Data'}
+                    {remainingCount > 0 && remainingCount < images.length
+                      ? `Extract Remaining (${remainingCount})`
+                      : `Extract ${images.length > 1 ? `All (${images.length})` : 'Data'}`}
                   </Button>
                   {results.length > 0 && (
                     <Button 
@@ -274,80 +826,27 @@ const Index = () => {
             {/* Right Column - Results */}
             <div className="space-y-6">
               {results.length > 0 && currentResult ? (
-                <>
-                  {/* Navigation for multiple results */}
-                  {results.length > 1 && (
-                    <div className="glass rounded-xl p-4 flex items-center justify-between">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => setCurrentResultIndex(i => Math.max(0, i - 1))}
-                        disabled={currentResultIndex === 0}
-                      >
-                        <ChevronLeft className="w-4 h-4" />
-                        Previous
-                      </Button>
-                      
-                      <div className="flex items-center gap-2">
-                        {results.map((r, idx) => (
-                          <button
-                            key={r.imageId}
-                            onClick={() => setCurrentResultIndex(idx)}
-                            className={cn(
-                              "w-2.5 h-2.5 rounded-full transition-all",
-                              idx === currentResultIndex 
-                                ? "bg-primary scale-125" 
-                                : r.isValid 
-                                  ? "bg-success/50 hover:bg-success" 
-                                  : "bg-destructive/50 hover:bg-destructive"
-                            )}
-                          />
-                        ))}
-                      </div>
-                      
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => setCurrentResultIndex(i => Math.min(results.length - 1, i + 1))}
-                        disabled={currentResultIndex === results.length - 1}
-                      >
-                        Next
-                        <ChevronRight className="w-4 h-4" />
-                      </Button>
-                    </div>
-                  )}
-
-                  <div className="text-sm text-muted-foreground text-center">
-                    <span className="font-medium text-foreground">{currentResult.imageName}</span>
-                    {results.length > 1 && (
-                      <span> • {currentResultIndex + 1} of {results.length}</span>
-                    )}
-                  </div>
-
-                  <ExtractedData {...currentResult} />
-                  
-                  <div className="glass rounded-2xl p-6">
-                    <div className="flex items-center justify-between mb-4">
-                      <h3 className="text-lg font-semibold text-foreground">Result Image</h3>
-                      <div className="flex gap-2">
-                        {results.length > 1 && (
-                          <Button variant="outline" size="sm" onClick={handleDownloadAll}>
-                            <Download className="w-4 h-4" />
-                            All ({results.length})
-                          </Button>
-                        )}
-                        <Button variant="default" size="sm" onClick={handleDownload}>
+                <div className="glass rounded-2xl p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-foreground">Result Image</h3>
+                    <div className="flex gap-2">
+                      {reviewQueue.length > 1 && (
+                        <Button variant="outline" size="sm" onClick={handleDownloadAll}>
                           <Download className="w-4 h-4" />
-                          Download
+                          All ({reviewQueue.length})
                         </Button>
-                      </div>
+                      )}
+                      <Button variant="default" size="sm" onClick={handleDownload}>
+                        <Download className="w-4 h-4" />
+                        Download
+                      </Button>
                     </div>
-                    <ResultCanvas 
-                      ref={resultCanvasRef}
-                      {...currentResult}
-                    />
                   </div>
-                </>
+                  <ResultCanvas 
+                    ref={resultCanvasRef}
+                    {...currentResult}
+                  />
+                </div>
               ) : (
                 <div className="glass rounded-2xl p-12 flex flex-col items-center justify-center min-h-[400px] text-center">
                   <div className="w-20 h-20 rounded-2xl bg-secondary flex items-center justify-center mb-6">
@@ -363,8 +862,90 @@ const Index = () => {
               )}
             </div>
           </div>
+
+          {/* Images that could not be extracted, with the reason for each */}
+          {visibleFailures.length > 0 && !isProcessing && (
+            <div className="max-w-6xl mx-auto mt-8">
+              <FailureReport failures={visibleFailures} onRetry={handleRetryFailed} />
+            </div>
+          )}
+
+          {/* Review Section - original scan next to the extracted fields */}
+          {((results.length > 0 && currentResult) || visibleUnclassified.length > 0) && (
+            <div className="max-w-6xl mx-auto mt-8 space-y-4">
+              {/* Navigation for multiple results, with images auto-detect set aside as their own bucket */}
+              {(results.length > 1 || visibleUnclassified.length > 0) && (
+                <ResultNavigation
+                  results={results}
+                  queue={reviewQueue}
+                  currentIndex={currentResultIndex}
+                  onSelect={handleSelectResult}
+                  order={reviewOrder}
+                  onOrderChange={setReviewOrder}
+                  lowConfidenceOnly={lowConfidenceOnly}
+                  onLowConfidenceOnlyChange={setLowConfidenceOnly}
+                  unclassifiedCount={visibleUnclassified.length}
+                  viewingUnclassified={showUnclassified}
+                  onShowUnclassified={() => setViewingUnclassified(true)}
+                />
+              )}
+
+              {showUnclassified ? (
+                <UnclassifiedImages
+                  images={visibleUnclassified}
+                  previews={Object.fromEntries(images.map(img => [img.id, img.preview]))}
+                  onAssign={handleAssignTemplate}
+                  disabled={isProcessing}
+                />
+              ) : currentResult && (
+                <>
+                  <div className="text-sm text-muted-foreground text-center">
+                    <span className="font-medium text-foreground">{currentResult.imageName}</span>
+                    {reviewQueue.length > 1 && reviewQueue.includes(currentResultIndex) && (
+                      <span> • {reviewQueue.indexOf(currentResultIndex) + 1} of {reviewQueue.length}</span>
+                    )}
+                    {currentConfidence !== null && (
+                      <span className={cn(isLowConfidence(currentConfidence) && "text-warning")}>
+                        {' '}• lowest confidence {Math.round(currentConfidence * 100)}%
+                      </span>
+                    )}
+                  </div>
+
+                  <ReviewWorkspace
+                    pages={currentResult.pages.map(page => ({
+                      src: images.find(img => img.id === page.imageId)?.preview,
+                      name: page.imageName,
+                    }))}
+                    pageIndex={activePage}
+                    onPageChange={setActivePage}
+                    regions={regionsOnPage(currentResult.regions, currentResult.regionPages, activePage)}
+                    activeRegion={activeField}
+                    onRegionSelect={setActiveField}
+                  >
+                    <ExtractedData
+                      key={currentResult.imageId}
+                      {...currentResult}
+                      onCorrect={handleCorrect}
+                      activeField={activeField}
+                      onLocate={setActiveField}
+                    />
+                  </ReviewWorkspace>
+                </>
+              )}
+            </div>
+          )}
         </div>
       </div>
+
+      <Dialog open={designerOpen} onOpenChange={setDesignerOpen}>
+        <DialogContent className="max-w-6xl max-h-[95vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Template Designer</DialogTitle>
+            <DialogDescription>Mark where each part of a sheet sits so extraction can look at it up close.</DialogDescription>
+          </DialogHeader>
+          <TemplateDesigner onSaved={handleTemplateSaved} className="!h-[70vh]" />
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -0,0 +1,34 @@
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { TemplateDesigner as Designer } from '@/components/TemplateDesigner';
+
+const TemplateDesigner = () => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/" title="Back to extraction">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">
+              <span className="gradient-text">Template</span> <span className="text-foreground">Designer</span>
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Mark where each part of a sheet sits so extraction can look at it up close.
+            </p>
+          </div>
+        </div>
+
+        <Designer onSaved={() => navigate('/')} />
+      </div>
+    </div>
+  );
+};
+
+export default TemplateDesigner;
@@ -0,0 +1,16 @@
+// Retry timing shared by the web app, which retries calls to extract-document,
+// and extract-document, which retries calls to the model provider. Each side
+// picks its own limits.
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Half the capped exponential delay is fixed and half is random, so requests
+// that failed together do not all retry at the same moment
+export const backoffDelay = (attempt: number, { baseDelayMs, maxDelayMs }: RetryOptions) => {
+  const capped = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return capped / 2 + Math.random() * (capped / 2);
+};
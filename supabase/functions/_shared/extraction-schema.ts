@@ -0,0 +1,125 @@
+import { z } from 'zod';
+
+// Shared by extract-document and the web app, so both sides agree on what a
+// usable extraction looks like. Resolved through the function's deno.json on
+// the server and the @shared alias in the app.
+
+// How extract-document turned the model's reply into JSON, least to most involved
+export const JSON_RECOVERIES = ['none', 'tolerant-parse', 're-prompt'] as const;
+
+export type JsonRecovery = (typeof JSON_RECOVERIES)[number];
+
+// What a marks cell holds, beyond its text. A blank question was not attempted,
+// an illegible one needs a human, and a struck-through mark no longer counts.
+export const CELL_STATES = ['value', 'blank', 'zero', 'illegible', 'struck-through'] as const;
+
+export type CellState = (typeof CELL_STATES)[number];
+
+export const buildRowSchema = (partLabels: string[]) =>
+  z.object({
+    qNo: z.string(),
+    total: z.string(),
+    ...Object.fromEntries(partLabels.map(label => [label, z.string()])),
+  });
+
+export const buildExtractionSchema = (partLabels: string[]) =>
+  z.object({
+    headerInfo: z.record(z.string()),
+    tableData: z.array(buildRowSchema(partLabels)),
+    writtenTotal: z.number(),
+    bubbleDigits: z.number(),
+    // Per-field metadata is parsed leniently by the app, one field at a time
+    boxes: z.unknown().optional(),
+    confidence: z.unknown().optional(),
+    states: z.unknown().optional(),
+    recovery: z.enum(JSON_RECOVERIES).optional(),
+    // Everything that had to be coerced to fit this schema
+    warnings: z.array(z.string()).optional(),
+  });
+
+export type ExtractionPayload = z.infer<ReturnType<typeof buildExtractionSchema>>;
+
+export type ExtractionRow = Record<string, string> & { qNo: string; total: string };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const describeValue = (value: unknown) => {
+  if (value === null || value === undefined) return 'missing';
+  if (Array.isArray(value)) return 'a list';
+  if (typeof value === 'object') return 'a nested object';
+  return `"${String(value)}"`;
+};
+
+// Fits raw model output to the schema. Lossless fixes (a number where text
+// was expected, a numeric string for a total) are silent; anything that loses
+// information is blanked and reported, so a substituted value never passes
+// for a reading. Returns null when the output is not an object at all.
+export const coerceExtraction = (
+  raw: unknown,
+  partLabels: string[]
+): { data: ExtractionPayload; warnings: string[] } | null => {
+  if (!isPlainObject(raw)) return null;
+  const warnings: string[] = Array.isArray(raw.warnings) ? raw.warnings.filter(w => typeof w === 'string') : [];
+
+  const text = (value: unknown, label: string, required: boolean) => {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+    if ((value === undefined || value === null) && !required) return '';
+    warnings.push(`${label} was ${describeValue(value)} and has been left blank`);
+    return '';
+  };
+
+  const total = (value: unknown, label: string) => {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    // Examiners write half marks as "12.5", "12,5" or "12½"
+    const written = typeof value === 'string' ? value.trim().replace(',', '.').replace(/^(\d*)½$/, '$1.5') : '';
+    if (/^(\d+(\.\d+)?|\.\d+)$/.test(written)) return Number(written);
+    warnings.push(`${label} was ${describeValue(value)} and has been counted as 0`);
+    return 0;
+  };
+
+  let headerInfo: Record<string, string> = {};
+  if (isPlainObject(raw.headerInfo)) {
+    headerInfo = Object.fromEntries(
+      Object.entries(raw.headerInfo).map(([key, value]) => [key, text(value, `Header field "${key}"`, true)])
+    );
+  } else if (raw.headerInfo !== undefined) {
+    warnings.push(`Header info was ${describeValue(raw.headerInfo)} and has been ignored`);
+  }
+
+  let tableData: ExtractionRow[] = [];
+  if (Array.isArray(raw.tableData)) {
+    tableData = raw.tableData.map((row: unknown, rowIndex) => {
+      // Rows are kept even when unusable, so boxes and confidence stay aligned by index
+      if (!isPlainObject(row)) {
+        warnings.push(`Table row ${rowIndex + 1} was ${describeValue(row)} and has been left blank`);
+        row = {};
+      }
+      const qNo = text((row as Record<string, unknown>).qNo, `Row ${rowIndex + 1} question number`, false);
+      const name = `Q${qNo || rowIndex + 1}`;
+      const cells = row as Record<string, unknown>;
+      return {
+        qNo,
+        total: text(cells.total, `${name} total`, false),
+        ...Object.fromEntries(partLabels.map(label => [label, text(cells[label], `${name}${label.toUpperCase()}`, false)])),
+      } as ExtractionRow;
+    });
+  } else {
+    warnings.push(`Marks table was ${describeValue(raw.tableData)}; no rows were read`);
+  }
+
+  const data = buildExtractionSchema(partLabels).parse({
+    headerInfo,
+    tableData,
+    writtenTotal: total(raw.writtenTotal, 'Written total'),
+    bubbleDigits: total(raw.bubbleDigits, 'Bubble digits'),
+    boxes: raw.boxes,
+    confidence: raw.confidence,
+    states: raw.states,
+    recovery: JSON_RECOVERIES.find(r => r === raw.recovery),
+    warnings,
+  });
+
+  return { data, warnings };
+};
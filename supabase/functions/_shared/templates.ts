@@ -0,0 +1,216 @@
+// Document layouts the app can read. Shared by extract-document, which builds
+// its prompt from a template, and the web app, which validates and renders
+// from it. Templates are plain data so the client can send one with a request.
+
+// Kind decides how a cell is checked and shown: marks add up, attendance
+// entries are codes such as P and A, and text is taken as read
+export type ColumnKind = 'mark' | 'attendance' | 'text';
+
+export interface TemplateColumn {
+  // Key in each tableData row; short, as the prompt and field keys repeat it
+  key: string;
+  label: string;
+  kind: ColumnKind;
+}
+
+// Column keys double as the scheme's part labels, so both sides hold them to
+// the same rule: 1 to 4 letters or digits
+export const MAX_COLUMN_KEY_LENGTH = 4;
+export const COLUMN_KEY_REGEX = new RegExp(`^[a-z0-9]{1,${MAX_COLUMN_KEY_LENGTH}}$`, 'i');
+
+export type GrandTotalSource = 'written' | 'bubbleDigits';
+
+export type TemplateRule =
+  // The value columns add up to the row's total column
+  | { kind: 'row-sum' }
+  // The row's total column counts the value cells holding one of these codes
+  | { kind: 'row-count'; values: string[] }
+  // Non-blank cells in these columns must hold one of these codes
+  | { kind: 'allowed-values'; columns: string[]; values: string[] }
+  // Cells that must be filled in on any row that has other entries
+  | { kind: 'required'; columns: string[] }
+  // A mark may not exceed a fixed maximum or the mark in another column
+  | { kind: 'not-above'; column: string; max: number | { column: string } }
+  // The marking scheme's per-question limits and grand maximum
+  | { kind: 'scheme-limits' };
+
+// Areas a template designer drew on a sample sheet
+export type RegionKind = 'header-field' | 'marks-table' | 'bubble-digits' | 'written-total';
+
+export const REGION_KINDS: RegionKind[] = ['header-field', 'marks-table', 'bubble-digits', 'written-total'];
+
+export const REGION_LABELS: Record<RegionKind, string> = {
+  'header-field': 'Header field',
+  'marks-table': 'Marks table',
+  'bubble-digits': 'Bubble digits',
+  'written-total': 'Written total',
+};
+
+export interface TemplateRegion {
+  id: string;
+  kind: RegionKind;
+  // The header field's name, or what the area holds
+  label: string;
+  // Normalized to the sample sheet, 0,0 top-left to 1,1 bottom-right
+  box: { x: number; y: number; width: number; height: number };
+}
+
+// Each close-up is a small part of the page, so the client shrinks any that
+// would be bigger than this and extract-document leaves out the rest
+export const MAX_CROP_BYTES = 2 * 1024 * 1024;
+// Together the close-ups of one sheet may not be bigger than the sheet itself
+export const MAX_TOTAL_CROP_BYTES = 10 * 1024 * 1024;
+
+export interface DocumentTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // Columns and limits come from the marking scheme the user picks
+  markingSchemes: boolean;
+  // What the document is, as the prompt names it
+  documentType: string;
+  // Extra reading guidance for this kind of document, one sentence each
+  instructions: string[];
+  // Header fields to look for first; others found on the sheet are kept too
+  headerFields: string[];
+  tableTitle: string;
+  // Label of the column that names each row, read into qNo
+  keyColumn: string;
+  // Prefix for naming a row in messages, e.g. "Q" for Q3
+  rowName: string;
+  columns: TemplateColumn[];
+  // Label of the per-row total column, read into total; null when there is none
+  totalColumn: string | null;
+  // Grand totals written on the document, reconciled with the calculated sum
+  grandTotals: GrandTotalSource[];
+  rules: TemplateRule[];
+  canvas: {
+    title: string;
+    // Header gradient, start and end
+    accent: [string, string];
+  };
+  // Model to read this kind of document with, instead of the function's default
+  model?: string;
+  // Where things are on the sheet; scans are cropped to these so the model can focus on them
+  regions?: TemplateRegion[];
+}
+
+export const markColumns = (keys: string[]): TemplateColumn[] =>
+  keys.map(key => ({ key, label: key.toUpperCase(), kind: 'mark' }));
+
+export const MARKS_TEMPLATE: DocumentTemplate = {
+  id: 'marks-sheet',
+  name: 'Exam marks sheet',
+  description: 'Question-wise marks with sub-parts, a written total and bubble digits.',
+  markingSchemes: true,
+  documentType: 'exam answer sheet cover with a marks table',
+  instructions: [
+    'Marks can include halves or other decimals. Copy a mark exactly as written, keeping its decimal point or comma ("2.5", "2,5" or "2½"); never round it to a whole number.',
+    'If the bubble grid has a half-mark (.5) column, include it in "bubbleDigits": tens 4, units 2 and the .5 bubble shaded is 42.5.',
+  ],
+  headerFields: [],
+  tableTitle: 'Marks Table',
+  keyColumn: 'Q.No',
+  rowName: 'Q',
+  // Replaced by the marking scheme's part labels
+  columns: markColumns(['a', 'b', 'c']),
+  totalColumn: 'Total',
+  grandTotals: ['written', 'bubbleDigits'],
+  rules: [{ kind: 'row-sum' }, { kind: 'scheme-limits' }],
+  canvas: { title: 'OCR Extraction Result', accent: ['#14b8a6', '#0891b2'] },
+};
+
+const ATTENDANCE_CODES = ['P', 'A', 'L'];
+const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export const DOCUMENT_TEMPLATES: DocumentTemplate[] = [
+  MARKS_TEMPLATE,
+  {
+    id: 'attendance-register',
+    name: 'Attendance register (weekly)',
+    description: 'One row per student with P, A or L for each day and the days present.',
+    markingSchemes: false,
+    documentType: 'weekly class attendance register',
+    instructions: [
+      'Write each attendance entry as P (present), A (absent) or L (leave); a tick means P and a cross means A.',
+      'Leave a day blank when nothing is marked, for example a holiday.',
+    ],
+    headerFields: ['Class', 'Subject', 'Week', 'Teacher'],
+    tableTitle: 'Attendance',
+    keyColumn: 'Roll No',
+    rowName: 'Roll ',
+    columns: [
+      { key: 'name', label: 'Name', kind: 'text' },
+      ...WEEKDAYS.map(day => ({ key: day, label: day[0].toUpperCase() + day.slice(1), kind: 'attendance' as const })),
+    ],
+    totalColumn: 'Present',
+    grandTotals: [],
+    rules: [
+      { kind: 'row-count', values: ['P'] },
+      { kind: 'allowed-values', columns: WEEKDAYS, values: ATTENDANCE_CODES },
+    ],
+    canvas: { title: 'Attendance Register', accent: ['#6366f1', '#0ea5e9'] },
+  },
+  {
+    id: 'lab-record',
+    name: 'Practical lab record',
+    description: 'Experiments with dates, marks out of 10 and the instructor\'s signature.',
+    markingSchemes: false,
+    documentType: 'practical lab record index sheet',
+    instructions: [
+      'For the signature column, write "signed" when there is a signature or initials and leave it blank otherwise.',
+      'Write dates as they appear on the sheet.',
+    ],
+    headerFields: ['Student', 'Roll No', 'Course', 'Batch'],
+    tableTitle: 'Experiments',
+    keyColumn: 'Exp. No',
+    rowName: 'Exp. ',
+    columns: [
+      { key: 'date', label: 'Date', kind: 'text' },
+      { key: 'name', label: 'Experiment', kind: 'text' },
+      { key: 'sign', label: 'Signature', kind: 'text' },
+    ],
+    totalColumn: 'Marks',
+    grandTotals: ['written'],
+    rules: [
+      { kind: 'required', columns: ['date', 'sign'] },
+      { kind: 'not-above', column: 'total', max: 10 },
+    ],
+    canvas: { title: 'Lab Record', accent: ['#f59e0b', '#ef4444'] },
+  },
+  {
+    id: 'internal-assessment',
+    name: 'Internal assessment form',
+    description: 'Marks per assessment component against its maximum, with a written total.',
+    markingSchemes: false,
+    documentType: 'internal assessment marks form',
+    instructions: [
+      'Each row is one assessment component such as an assignment, quiz or mid-term test.',
+      'Marks can include halves; copy them exactly as written.',
+    ],
+    headerFields: ['Student', 'Roll No', 'Subject', 'Semester'],
+    tableTitle: 'Components',
+    keyColumn: 'Component',
+    rowName: '',
+    columns: [{ key: 'max', label: 'Max', kind: 'mark' }],
+    totalColumn: 'Awarded',
+    grandTotals: ['written'],
+    rules: [
+      { kind: 'required', columns: ['max'] },
+      { kind: 'not-above', column: 'total', max: { column: 'max' } },
+    ],
+    canvas: { title: 'Internal Assessment', accent: ['#22c55e', '#14b8a6'] },
+  },
+];
+
+export const findTemplate = (id: unknown) => DOCUMENT_TEMPLATES.find(t => t.id === id);
+
+// Which template extract-document found an image to be, when asked to classify it
+export interface Classification {
+  // The closest template, even when the match is too weak to read the image with
+  templateId: string | null;
+  confidence: number;
+  reason: string;
+  // Whether the image was read as templateId; unmatched images are not extracted
+  matched: boolean;
+}
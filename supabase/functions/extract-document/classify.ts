@@ -0,0 +1,70 @@
+import { parseModelJson } from "./json-repair.ts";
+import { parseScheme, parseTemplate, PromptScheme, PromptTemplate, RejectedInput } from "./prompt.ts";
+import type { Classification } from "../_shared/templates.ts";
+
+// A template the image may match, with the scheme to read it with if it does
+export interface ClassifyCandidate {
+  template: PromptTemplate;
+  scheme: PromptScheme;
+}
+
+// Below this the image is left unclassified rather than forced into a template
+export const MIN_CLASSIFY_CONFIDENCE = 0.6;
+
+const MAX_CANDIDATES = 20;
+
+// Candidates come from the client as { template, scheme } pairs and are checked
+// like a single template and scheme. One that is rejected rejects the request,
+// since the image could be the template it describes. Duplicate ids keep the first.
+export const parseCandidates = (input: unknown): ClassifyCandidate[] | RejectedInput => {
+  if (!Array.isArray(input)) return [];
+  const candidates: ClassifyCandidate[] = [];
+  for (const entry of input.slice(0, MAX_CANDIDATES)) {
+    if (!entry || typeof entry !== 'object' || !entry.template) return { error: 'Each candidate needs a template' };
+    const template = parseTemplate(entry.template);
+    if ('error' in template) return template;
+    const scheme = parseScheme(entry.scheme);
+    if ('error' in scheme) return scheme;
+    if (!candidates.some(c => c.template.id === template.id)) candidates.push({ template, scheme });
+  }
+  return candidates;
+};
+
+export const buildClassifyPrompt = (candidates: ClassifyCandidate[]) => {
+  const list = candidates
+    .map(({ template }) => `- "${template.id}": ${template.name} (${template.documentType})${template.description ? `. ${template.description}` : ''}`)
+    .join('\n');
+
+  return `Look at this document image and decide which of these document templates it is:
+${list}
+
+Judge by the layout, headings and table columns, not by the handwriting. If the image matches none of them, for
+example a different form, a blank page or a photo of something else, answer "none".
+
+Return ONLY this JSON object, no markdown or explanation:
+{
+  "templateId": "<one of the ids above, or none>",
+  "confidence": 0.9, // How sure you are, from 0 (guess) to 1 (certain)
+  "reason": "One short sentence on what gave it away"
+}`;
+};
+
+// An unreadable reply counts as no match, so the image is set aside for a
+// person to sort instead of failing the batch
+export const parseClassification = (content: string | undefined, candidates: ClassifyCandidate[]): Classification => {
+  let data: Record<string, unknown>;
+  try {
+    ({ data } = parseModelJson(content ?? ''));
+  } catch {
+    return { templateId: null, confidence: 0, reason: 'The classification reply could not be read', matched: false };
+  }
+
+  const templateId = candidates.some(c => c.template.id === data.templateId) ? (data.templateId as string) : null;
+  const confidence = typeof data.confidence === 'number' ? Math.min(Math.max(data.confidence, 0), 1) : 0;
+  return {
+    templateId,
+    confidence,
+    reason: typeof data.reason === 'string' ? data.reason.slice(0, 300) : '',
+    matched: templateId !== null && confidence >= MIN_CLASSIFY_CONFIDENCE,
+  };
+};
@@ -0,0 +1,50 @@
+import { MAX_CROP_BYTES, MAX_TOTAL_CROP_BYTES, TemplateRegion } from "../_shared/templates.ts";
+import { describeRegion, PromptTemplate } from "./prompt.ts";
+
+export const IMAGE_DATA_URL_REGEX = /^data:image\/(jpeg|jpg|png|webp|gif|bmp);base64,/;
+
+export interface RegionCrop {
+  region: TemplateRegion;
+  imageBase64: string;
+}
+
+const base64Bytes = (dataUrl: string) => Math.ceil((dataUrl.split(',')[1] || '').length * 0.75);
+
+const megabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+// Close-ups of the template's regions, cut out by the client. Crops for
+// regions the template does not have, or that are not images, are dropped;
+// crops too big to send on are left out with a warning for the result.
+export const parseCrops = (input: unknown, template: PromptTemplate): { crops: RegionCrop[]; warnings: string[] } => {
+  const crops: RegionCrop[] = [];
+  const warnings: string[] = [];
+  if (!Array.isArray(input)) return { crops, warnings };
+
+  const regions = template.regions ?? [];
+  let totalBytes = 0;
+  for (const entry of input) {
+    const region = regions.find(r => r.id === entry?.regionId);
+    const imageBase64 = entry?.imageBase64;
+    if (!region || typeof imageBase64 !== 'string' || !IMAGE_DATA_URL_REGEX.test(imageBase64)) continue;
+
+    const bytes = base64Bytes(imageBase64);
+    if (bytes > MAX_CROP_BYTES) {
+      warnings.push(`Close-up of ${describeRegion(region)} was larger than ${megabytes(MAX_CROP_BYTES)} and was left out`);
+      continue;
+    }
+    if (totalBytes + bytes > MAX_TOTAL_CROP_BYTES) {
+      warnings.push(`Close-up of ${describeRegion(region)} was left out; the close-ups together were larger than ${megabytes(MAX_TOTAL_CROP_BYTES)}`);
+      continue;
+    }
+    totalBytes += bytes;
+    crops.push({ region, imageBase64 });
+  }
+  return { crops, warnings };
+};
+
+// Message parts for the close-ups, each named so the prompt can refer to it
+export const cropContent = (crops: RegionCrop[]) =>
+  crops.flatMap(({ region, imageBase64 }) => [
+    { type: 'text', text: `Close-up of ${describeRegion(region)}:` },
+    { type: 'image_url', image_url: { url: imageBase64 } },
+  ]);
@@ -1,8 +1,29 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { buildPrompt, parseScheme, parseTemplate, PromptVariant, RejectedInput } from "./prompt.ts";
+import { cropContent, IMAGE_DATA_URL_REGEX, parseCrops } from "./crops.ts";
+import { buildClassifyPrompt, ClassifyCandidate, parseCandidates, parseClassification } from "./classify.ts";
+import type { Classification } from "../_shared/templates.ts";
+import { createProvider, pickModel } from "./providers.ts";
+import { isUnsupportedOutput, OutputMode, outputModeFor, outputRequest, rememberTextOnly, replyContent } from "./output-schema.ts";
+import { buildRepairPrompt, parseModelJson } from "./json-repair.ts";
+import { coerceExtraction, ExtractionPayload, JsonRecovery } from "../_shared/extraction-schema.ts";
+
+// OpenAI-style errors carry their reason in error.message; anything else is
+// shown as sent, cut short
+const providerReason = (errorText: string) => {
+  try {
+    const message = JSON.parse(errorText)?.error?.message;
+    if (typeof message === 'string' && message) return message;
+  } catch {
+    // Not JSON
+  }
+  return errorText.slice(0, 300) || 'no reason given';
+};
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'x-gateway-attempts',
 };
 
 serve(async (req) => {
@@ -11,8 +32,31 @@ serve(async (req) => {
   }
 
   try {
-    const { imageBase64 } = await req.json();
-    
+    const {
+      imageBase64,
+      scheme: rawScheme,
+      template: rawTemplate,
+      model: requestedModel,
+      consensus: consensusRequest,
+      classify: classifyRequest,
+      crops: rawCrops,
+      mockFixtures,
+    } = await req.json();
+    const parsedScheme = parseScheme(rawScheme);
+    const parsedTemplate = parseTemplate(rawTemplate);
+    const parsedCandidates = classifyRequest && typeof classifyRequest === 'object' ? parseCandidates(classifyRequest.candidates) : [];
+
+    // A layout the app sent but that cannot be used is reported, not swapped for another
+    if ('error' in parsedScheme || 'error' in parsedTemplate || 'error' in parsedCandidates) {
+      const { error } = [parsedScheme, parsedTemplate, parsedCandidates].find(parsed => 'error' in parsed) as RejectedInput;
+      return new Response(JSON.stringify({ error }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    const requested: ClassifyCandidate = { scheme: parsedScheme, template: parsedTemplate };
+    const candidates = parsedCandidates;
+
     // Validate presence
     if (!imageBase64) {
       return new Response(JSON.stringify({ error: 'No image provided' }), {
@@ -22,8 +66,7 @@ serve(async (req) => {
     }
 
     // Validate base64 format (must be a data URL with image type)
-    const base64Regex = /^data:image\/(jpeg|jpg|png|webp|gif|bmp);base64,/;
-    if (!base64Regex.test(imageBase64)) {
+    if (!IMAGE_DATA_URL_REGEX.test(imageBase64)) {
       return new Response(JSON.stringify({ error: 'Invalid image format. Only JPEG, PNG, WEBP, GIF, and BMP supported.' }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -43,124 +86,229 @@ serve(async (req) => {
 
     console.log(`Processing image: ${sizeInBytes} bytes`);
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      console.error('LOVABLE_API_KEY not configured');
-      return new Response(JSON.stringify({ error: 'API key not configured' }), {
+    const configured = createProvider(Deno.env, {
+      fixtures: typeof mockFixtures === 'string' ? mockFixtures : undefined,
+    });
+    if ('error' in configured) {
+      console.error(configured.error);
+      return new Response(JSON.stringify({ error: 'AI provider not configured' }), {
         status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
+    const { provider } = configured;
 
-    console.log('Processing document extraction with Gemini Vision...');
-
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: `Analyze this document image and extract all information. 
-
-IMPORTANT: Extract EXACTLY what you see - handwritten text, printed text, and table data.
-
-Return a JSON object with this exact structure:
-{
-  "headerInfo": {
-    // Extract any header/metadata fields like exam name, date, subject, branch, student info, etc.
-    // Use the actual field names you see in the document
-  },
-  "tableData": [
-    // If there's a marks/scores table, extract each row with:
-    { "qNo": "question number", "a": "part a marks", "b": "part b marks", "c": "part c marks", "total": "row total" }
-    // Include ALL rows, even empty ones
-  ],
-  "writtenTotal": // The total marks written/shown in the document (number)
-  "bubbleDigits": // The bubble digits or final total shown (number)
-}
-
-If there's no table, return empty tableData array.
-If certain fields don't exist, use empty strings.
-Extract ALL text you can read - both printed and handwritten.
-For handwritten numbers, do your best to interpret them accurately.
-
-Return ONLY the JSON object, no markdown or explanation.`
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: imageBase64
-                }
-              }
-            ]
-          }
-        ],
-      }),
-    });
+    let totalAttempts = 0;
+    // Lets the client show how many gateway attempts an image took
+    const attemptHeaders = () => ({ ...corsHeaders, 'Content-Type': 'application/json', 'x-gateway-attempts': String(totalAttempts) });
 
-    if (!response.ok) {
+    const gatewayError = async (response: Response) => {
       const errorText = await response.text();
-      console.error('AI Gateway error:', response.status, errorText);
+      console.error(`AI Gateway error after ${totalAttempts} attempt(s):`, response.status, errorText);
       
       if (response.status === 429) {
         return new Response(JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }), {
           status: 429,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          headers: attemptHeaders(),
         });
       }
       if (response.status === 402) {
         return new Response(JSON.stringify({ error: 'AI credits exhausted. Please add credits.' }), {
           status: 402,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          headers: attemptHeaders(),
+        });
+      }
+      // The provider turned this request down, for example an unknown model or an
+      // image it cannot read, so its reason is passed on rather than a generic error
+      if (response.status === 400 || response.status === 422) {
+        return new Response(JSON.stringify({ error: `AI provider rejected the request: ${providerReason(errorText)}` }), {
+          status: 400,
+          headers: attemptHeaders(),
         });
       }
       
+      // Passed on as 502 so the client knows the gateway, not this function, failed
       return new Response(JSON.stringify({ error: 'Failed to process document' }), {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: response.status >= 500 ? 502 : 500,
+        headers: attemptHeaders(),
       });
-    }
+    };
 
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-    
-    console.log('AI Response:', content);
-
-    // Parse the JSON response
-    let extractedData;
-    try {
-      // Remove markdown code blocks if present
-      let cleanContent = content;
-      if (content.includes('```json')) {
-        cleanContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      } else if (content.includes('```')) {
-        cleanContent = content.replace(/```\n?/g, '');
-      }
-      extractedData = JSON.parse(cleanContent.trim());
-    } catch (parseError) {
-      console.error('Failed to parse AI response as JSON:', parseError);
-      console.error('Raw content:', content);
-      return new Response(JSON.stringify({ 
-        error: 'Failed to parse extracted data',
-        rawContent: content 
-      }), {
+    const defaultModel = pickModel(provider.defaultModel, requestedModel, requested.template.model, requested.scheme.model);
+    if (!defaultModel) {
+      return new Response(JSON.stringify({ error: `No model configured for ${provider.name}. Set AI_MODEL or pass a model.` }), {
         status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    console.log('Extracted data:', JSON.stringify(extractedData));
+    // Classification first picks which of the client's templates the image is.
+    // An image that matches none is not read, so it is never forced into the
+    // wrong layout; the client sets it aside as unclassified.
+    const classifyImage = async (): Promise<Classification | { failure: Response }> => {
+      const { response, attempts } = await provider.complete([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: buildClassifyPrompt(candidates) },
+            { type: 'image_url', image_url: { url: imageBase64 } },
+          ],
+        },
+      ], defaultModel);
+      totalAttempts += attempts;
+      if (!response.ok) return { failure: await gatewayError(response) };
 
-    return new Response(JSON.stringify(extractedData), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      const content = replyContent(await response.json());
+      console.log(`Classification reply (${defaultModel}):`, content);
+      return parseClassification(content, candidates);
+    };
+    const classification = candidates.length > 0 ? await classifyImage() : null;
+    if (classification && 'failure' in classification) return classification.failure;
+    if (classification && !classification.matched) {
+      return new Response(JSON.stringify({ classification }), { headers: attemptHeaders() });
+    }
+
+    const { scheme, template } = candidates.find(c => c.template.id === classification?.templateId) ?? requested;
+    const model = pickModel(defaultModel, requestedModel, template.model, scheme.model) ?? defaultModel;
+    // Close-ups only fit the template they were cut for
+    const { crops, warnings: cropWarnings } = parseCrops(rawCrops, template);
+
+    // Consensus reads the sheet a second time, with another model when one is
+    // named and otherwise with the same model and a cross-check prompt
+    const wantsConsensus = !!consensusRequest && typeof consensusRequest === 'object';
+    const secondModel = wantsConsensus ? pickModel(model, consensusRequest.model) : null;
+    const secondVariant: PromptVariant = secondModel === model ? 'cross-check' : 'standard';
+
+    console.log(`Processing document extraction with ${provider.name} using ${model}${secondModel ? ` and ${secondModel} (${secondVariant})` : ''} (${template.name}, scheme: ${scheme.name}${crops.length > 0 ? `, ${crops.length} close-ups` : ''})...`);
+
+    // One full reading of the sheet: call the model, parse its reply (repairing
+    // it or asking once more if needed) and fit it to the shared schema.
+    // Resolves with the error response to send when the reading fails.
+    const readSheet = async (
+      readModel: string,
+      variant: PromptVariant
+    ): Promise<{ data: ExtractionPayload; recovery: JsonRecovery } | { failure: Response }> => {
+      const callGateway = (messages: unknown[], output: OutputMode) =>
+        provider.complete(messages, readModel, outputRequest(output, scheme));
+
+      const promptMessages = (output: OutputMode): unknown[] => [
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: buildPrompt(scheme, template, variant, output, crops.map(c => c.region))
+            },
+            {
+              type: 'image_url',
+              image_url: {
+                url: imageBase64
+              }
+            },
+            ...cropContent(crops),
+          ]
+        }
+      ];
+
+      let output = outputModeFor(provider);
+      let { response, attempts } = await callGateway(promptMessages(output), output);
+      totalAttempts += attempts;
+
+      // Providers without tools or response_format reject the request outright;
+      // the free-text prompt and parser still work for them. The body is read
+      // from a copy so any other error still reaches gatewayError intact.
+      const errorText = output !== 'text' && !response.ok ? await response.clone().text() : '';
+      if (isUnsupportedOutput(response.status, errorText)) {
+        console.warn(`${provider.name} rejected ${output} output (${response.status}): ${errorText}. Falling back to free text.`);
+        rememberTextOnly(provider.name);
+        output = 'text';
+        ({ response, attempts } = await callGateway(promptMessages(output), output));
+        totalAttempts += attempts;
+      }
+      if (!response.ok) return { failure: await gatewayError(response) };
+
+      const data = await response.json();
+      const content = replyContent(data);
+      
+      console.log(`AI Response (${readModel}, ${variant}, ${output}):`, content);
+
+      // Parse the JSON response, repairing it or asking the model once more if needed
+      let extractedData: Record<string, unknown>;
+      let recovery: JsonRecovery;
+      try {
+        ({ data: extractedData, recovery } = parseModelJson(content ?? ''));
+      } catch (parseError) {
+        console.warn('AI response is not valid JSON, asking the model to fix it:', parseError);
+
+        // Asked as plain text, since a tool call cannot carry the correction request
+        const retry = await callGateway([
+          ...promptMessages('text'),
+          { role: 'assistant', content: content ?? '' },
+          { role: 'user', content: buildRepairPrompt(parseError) },
+        ], 'text');
+        totalAttempts += retry.attempts;
+        if (!retry.response.ok) return { failure: await gatewayError(retry.response) };
+
+        const retryData = await retry.response.json();
+        const retryContent = replyContent(retryData);
+        console.log('AI Response after re-prompt:', retryContent);
+
+        try {
+          ({ data: extractedData } = parseModelJson(retryContent ?? ''));
+          recovery = 're-prompt';
+        } catch (retryError) {
+          console.error('Failed to parse AI response as JSON after re-prompt:', retryError);
+          console.error('Raw content:', retryContent);
+          return {
+            failure: new Response(JSON.stringify({ 
+              error: 'Failed to parse extracted data',
+              rawContent: retryContent ?? content 
+            }), {
+              status: 500,
+              headers: attemptHeaders(),
+            }),
+          };
+        }
+      }
+
+      console.log(`Extracted data (recovery: ${recovery}):`, JSON.stringify(extractedData));
+
+      // Fit the reply to the shared schema, reporting anything that had to change
+      const coerced = coerceExtraction(extractedData, scheme.partLabels);
+      if (!coerced) {
+        return {
+          failure: new Response(JSON.stringify({ 
+            error: 'Failed to parse extracted data: the reply was not a JSON object',
+            rawContent: JSON.stringify(extractedData)
+          }), {
+            status: 500,
+            headers: attemptHeaders(),
+          }),
+        };
+      }
+      if (coerced.warnings.length > 0) {
+        console.warn('Extracted data did not match the schema:', coerced.warnings);
+      }
+
+      return { data: coerced.data, recovery };
+    };
+
+    // Both readings run side by side; for a final result, one reading alone is not enough
+    const [primary, secondary] = await Promise.all([
+      readSheet(model, 'standard'),
+      secondModel ? readSheet(secondModel, secondVariant) : Promise.resolve(null),
+    ]);
+    if ('failure' in primary) return primary.failure;
+    if (secondary && 'failure' in secondary) return secondary.failure;
+
+    const consensus = secondary && {
+      readers: [model, secondVariant === 'cross-check' ? `${secondModel} (cross-check)` : secondModel],
+      reading: { ...secondary.data, recovery: secondary.recovery },
+    };
+
+    const warnings = [...(primary.data.warnings ?? []), ...cropWarnings];
+    return new Response(JSON.stringify({ ...primary.data, warnings, recovery: primary.recovery, consensus, classification }), {
+      headers: attemptHeaders(),
     });
 
   } catch (error) {
@@ -0,0 +1,90 @@
+import type { JsonRecovery } from "../_shared/extraction-schema.ts";
+
+// The recovery path is recorded on every response so a sheet that needed
+// help can be double-checked by the reviewer.
+
+const stripCodeFences = (content: string) => content.replace(/```(?:json)?\n?/gi, '').trim();
+
+// Walks the text outside string literals, letting `step` consume or keep
+// characters. Returns the rebuilt text.
+const rewriteOutsideStrings = (text: string, step: (text: string, i: number) => { emit: string; next: number }) => {
+  let out = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; ) {
+    const char = text[i];
+
+    if (inString) {
+      if (char === '\\') {
+        out += text.slice(i, i + 2);
+        i += 2;
+        continue;
+      }
+      if (char === '"') inString = false;
+      out += char;
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      out += char;
+      i++;
+      continue;
+    }
+
+    const { emit, next } = step(text, i);
+    out += emit;
+    i = next;
+  }
+
+  return out;
+};
+
+// The prompt's own template uses // comments, and models copy them
+const stripComments = (text: string) =>
+  rewriteOutsideStrings(text, (t, i) => {
+    if (t.startsWith('//', i)) {
+      const end = t.indexOf('\n', i);
+      return { emit: '\n', next: end === -1 ? t.length : end + 1 };
+    }
+    if (t.startsWith('/*', i)) {
+      const end = t.indexOf('*/', i + 2);
+      return { emit: '', next: end === -1 ? t.length : end + 2 };
+    }
+    return { emit: t[i], next: i + 1 };
+  });
+
+const stripTrailingCommas = (text: string) =>
+  rewriteOutsideStrings(text, (t, i) => ({
+    emit: t[i] === ',' && /^\s*[}\]]/.test(t.slice(i + 1)) ? '' : t[i],
+    next: i + 1,
+  }));
+
+// Keeps only the outermost object, dropping any prose the model wrapped it in
+const extractObject = (text: string) => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text;
+};
+
+// Tries a strict parse first, then a tolerant one. Throws the strict parse
+// error when neither works, since that is what the model is told to fix.
+export const parseModelJson = (content: string): { data: Record<string, unknown>; recovery: JsonRecovery } => {
+  const cleaned = stripCodeFences(content ?? '');
+
+  try {
+    return { data: JSON.parse(cleaned), recovery: 'none' };
+  } catch (strictError) {
+    try {
+      const repaired = stripTrailingCommas(stripComments(extractObject(cleaned)));
+      return { data: JSON.parse(repaired), recovery: 'tolerant-parse' };
+    } catch {
+      throw strictError;
+    }
+  }
+};
+
+export const buildRepairPrompt = (error: unknown) =>
+  `Your previous reply could not be parsed as JSON (${error instanceof Error ? error.message : String(error)}).
+Reply again with ONLY the corrected JSON object: no comments, no trailing commas and no text before or after it.`;
@@ -0,0 +1,119 @@
+import { CELL_STATES } from "../_shared/extraction-schema.ts";
+import type { PromptScheme } from "./prompt.ts";
+
+// How the model is asked to shape its reply:
+//   tool         a forced function call whose arguments follow the schema
+//   json-schema  response_format with the schema, for providers that enforce it
+//   text         the prompt alone, with the reply parsed and repaired as free text
+export const OUTPUT_MODES = ['tool', 'json-schema', 'text'] as const;
+
+export type OutputMode = (typeof OUTPUT_MODES)[number];
+
+export const parseOutputMode = (value: string | undefined): OutputMode | null =>
+  OUTPUT_MODES.find(mode => mode === value) ?? null;
+
+export const TOOL_NAME = 'submit_extraction';
+
+// The same shape for every per-field map: header fields by name, one entry per
+// table row, and the two totals
+const fieldMap = (rowColumns: string[], value: Record<string, unknown>) => ({
+  type: 'object',
+  properties: {
+    headerInfo: { type: 'object', additionalProperties: value },
+    tableData: {
+      type: 'array',
+      items: { type: 'object', properties: Object.fromEntries(rowColumns.map(column => [column, value])) },
+    },
+    writtenTotal: value,
+    bubbleDigits: value,
+  },
+});
+
+// JSON Schema for the reply, generated from the scheme's part labels. Header
+// field names vary from sheet to sheet, so headerInfo stays open; that is also
+// why the schema is not sent in strict mode.
+export const buildOutputSchema = (scheme: PromptScheme) => {
+  const rowColumns = ['qNo', ...scheme.partLabels, 'total'];
+  const box = { type: ['array', 'null'], items: { type: 'number' }, minItems: 4, maxItems: 4 };
+
+  return {
+    type: 'object',
+    properties: {
+      headerInfo: { type: 'object', additionalProperties: { type: 'string' } },
+      tableData: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: Object.fromEntries(rowColumns.map(column => [column, { type: 'string' }])),
+          required: rowColumns,
+        },
+      },
+      writtenTotal: { type: 'number' },
+      bubbleDigits: { type: 'number' },
+      boxes: fieldMap(rowColumns, box),
+      confidence: fieldMap(rowColumns, { type: 'number', minimum: 0, maximum: 1 }),
+      states: fieldMap([...scheme.partLabels, 'total'], { type: 'string', enum: [...CELL_STATES] }),
+    },
+    required: ['headerInfo', 'tableData', 'writtenTotal', 'bubbleDigits'],
+  };
+};
+
+// Extra chat-completions request fields for a mode
+export const outputRequest = (mode: OutputMode, scheme: PromptScheme): Record<string, unknown> => {
+  const schema = buildOutputSchema(scheme);
+  switch (mode) {
+    case 'tool':
+      return {
+        tools: [{
+          type: 'function',
+          function: {
+            name: TOOL_NAME,
+            description: 'Submit everything read from the document image',
+            parameters: schema,
+          },
+        }],
+        tool_choice: { type: 'function', function: { name: TOOL_NAME } },
+      };
+    case 'json-schema':
+      return { response_format: { type: 'json_schema', json_schema: { name: 'extraction', schema } } };
+    case 'text':
+      return {};
+  }
+};
+
+interface ChatCompletionBody {
+  choices?: {
+    message?: {
+      content?: string | null;
+      tool_calls?: { function?: { name?: string; arguments?: unknown } }[];
+    };
+  }[];
+}
+
+// The reply text to parse: the tool call's arguments when the model made one,
+// otherwise the message content, which is where a provider that ignored the
+// tool or response format puts its JSON
+export const replyContent = (data: ChatCompletionBody | null): string | undefined => {
+  const message = data?.choices?.[0]?.message;
+  const args = message?.tool_calls?.find(call => call?.function?.name === TOOL_NAME)?.function?.arguments;
+  if (typeof args === 'string') return args;
+  if (args && typeof args === 'object') return JSON.stringify(args);
+  return message?.content ?? undefined;
+};
+
+// A 400 or 422 only means tools or response_format are unsupported when the
+// provider's error says so; any other bad request is a real error
+const UNSUPPORTED_OUTPUT_REGEX = /\b(tools?|tool_choice|response_format|json_schema)\b/i;
+
+export const isUnsupportedOutput = (status: number, errorText: string) =>
+  (status === 400 || status === 422) && UNSUPPORTED_OUTPUT_REGEX.test(errorText);
+
+// Providers that turned structured output down, by name. This lives as long as
+// the function instance, so later requests go straight to free text instead of
+// paying for a rejected call first.
+const textOnlyProviders = new Set<string>();
+
+export const rememberTextOnly = (providerName: string) => textOnlyProviders.add(providerName);
+
+export const outputModeFor = (provider: { name: string; outputMode: OutputMode }): OutputMode =>
+  textOnlyProviders.has(provider.name) ? 'text' : provider.outputMode;
@@ -0,0 +1,317 @@
+import { CELL_STATES } from "../_shared/extraction-schema.ts";
+import {
+  COLUMN_KEY_REGEX,
+  ColumnKind,
+  DocumentTemplate,
+  findTemplate,
+  GrandTotalSource,
+  MARKS_TEMPLATE,
+  REGION_KINDS,
+  REGION_LABELS,
+  TemplateColumn,
+  TemplateRegion,
+} from "../_shared/templates.ts";
+import type { OutputMode } from "./output-schema.ts";
+
+export interface SchemeQuestion {
+  qNo: string;
+  partMax: Record<string, number>;
+}
+
+export interface PromptScheme {
+  name: string;
+  partLabels: string[];
+  questions: SchemeQuestion[];
+  grandMaximum: number | null;
+  // Model to read sheets of this scheme with; validated by pickModel()
+  model: string | null;
+}
+
+const DEFAULT_PROMPT_SCHEME: PromptScheme = {
+  name: 'Generic A/B/C sheet',
+  partLabels: ['a', 'b', 'c'],
+  questions: [],
+  grandMaximum: null,
+  model: null,
+};
+
+// A scheme or template the client sent but that cannot be used as sent.
+// Reading the sheet in some other layout would only hand back blank cells.
+export interface RejectedInput {
+  error: string;
+}
+
+// The scheme comes from the client, so only accept the fields the prompt needs.
+// Without one the A/B/C layout is used; one with bad part labels is rejected.
+export const parseScheme = (input: unknown): PromptScheme | RejectedInput => {
+  if (input === undefined || input === null) return DEFAULT_PROMPT_SCHEME;
+  if (typeof input !== 'object') return { error: 'Marking scheme must be an object' };
+  const raw = input as Record<string, unknown>;
+  const name = typeof raw.name === 'string' ? raw.name : DEFAULT_PROMPT_SCHEME.name;
+
+  const partLabels = Array.isArray(raw.partLabels) ? raw.partLabels : [];
+  if (partLabels.length === 0) return { error: `Marking scheme "${name}" has no part labels` };
+  const badLabel = partLabels.find(l => typeof l !== 'string' || !COLUMN_KEY_REGEX.test(l));
+  if (badLabel !== undefined) {
+    return { error: `Marking scheme "${name}" has part label ${JSON.stringify(badLabel)}; labels must be 1 to 4 letters or digits` };
+  }
+
+  const questions = Array.isArray(raw.questions)
+    ? raw.questions
+        .filter((q): q is SchemeQuestion =>
+          !!q && typeof q === 'object' && typeof q.qNo === 'string' && !!q.partMax && typeof q.partMax === 'object')
+        .map(q => ({
+          qNo: q.qNo,
+          partMax: Object.fromEntries(
+            Object.entries(q.partMax).filter(([label, max]) => partLabels.includes(label) && typeof max === 'number')
+          ),
+        }))
+    : [];
+
+  return {
+    name,
+    partLabels,
+    questions,
+    grandMaximum: typeof raw.grandMaximum === 'number' ? raw.grandMaximum : null,
+    model: typeof raw.model === 'string' ? raw.model : null,
+  };
+};
+
+// The fields of a template the prompt uses
+export type PromptTemplate = Pick<
+  DocumentTemplate,
+  'id' | 'name' | 'description' | 'documentType' | 'instructions' | 'headerFields' | 'tableTitle' | 'keyColumn' | 'columns' | 'totalColumn' | 'grandTotals' | 'model' | 'regions'
+>;
+
+const COLUMN_KINDS: ColumnKind[] = ['mark', 'attendance', 'text'];
+const GRAND_TOTALS: GrandTotalSource[] = ['written', 'bubbleDigits'];
+const MAX_TEXT_LENGTH = 200;
+const TEMPLATE_ID_REGEX = /^[\w:-]{1,64}$/;
+
+const isText = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_TEXT_LENGTH;
+
+const textList = (value: unknown) => (Array.isArray(value) ? value.filter(isText) : []);
+
+const REGION_ID_REGEX = /^[\w-]{1,40}$/;
+const MAX_REGIONS = 24;
+
+const isFraction = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+const parseRegions = (value: unknown): TemplateRegion[] =>
+  Array.isArray(value)
+    ? value
+        .filter((r): r is TemplateRegion =>
+          !!r && typeof r === 'object' && typeof r.id === 'string' && REGION_ID_REGEX.test(r.id) &&
+          REGION_KINDS.includes(r.kind) && isText(r.label) && !!r.box &&
+          [r.box.x, r.box.y, r.box.width, r.box.height].every(isFraction))
+        .slice(0, MAX_REGIONS)
+    : [];
+
+const isColumn = (c: unknown): c is TemplateColumn =>
+  !!c && typeof c === 'object' && 'key' in c && typeof c.key === 'string' && COLUMN_KEY_REGEX.test(c.key) &&
+  'label' in c && isText(c.label) && 'kind' in c && COLUMN_KINDS.includes(c.kind as ColumnKind);
+
+// Like the scheme, a template sent by the client is checked field by field.
+// Without one the marks sheet is used; optional fields that are malformed take
+// the built-in template's value, but a bad layout rejects the template.
+export const parseTemplate = (input: unknown): PromptTemplate | RejectedInput => {
+  if (input === undefined || input === null) return MARKS_TEMPLATE;
+  if (typeof input !== 'object') return { error: 'Template must be an object' };
+  const raw = input as Record<string, unknown>;
+  const fallback = findTemplate(raw.id) ?? MARKS_TEMPLATE;
+  const name = isText(raw.name) ? raw.name : fallback.name;
+
+  const columns = Array.isArray(raw.columns) ? raw.columns : [];
+  if (columns.length === 0) return { error: `Template "${name}" has no columns` };
+  const badColumn = columns.find(c => !isColumn(c));
+  if (badColumn !== undefined) {
+    return {
+      error: `Template "${name}" has an invalid column ${JSON.stringify(badColumn)}; keys must be 1 to 4 letters or digits`,
+    };
+  }
+  if (!isText(raw.documentType)) return { error: `Template "${name}" has no document type` };
+  if (!isText(raw.keyColumn)) return { error: `Template "${name}" has no row label column` };
+  const grandTotals = Array.isArray(raw.grandTotals) ? raw.grandTotals : [];
+
+  return {
+    id: typeof raw.id === 'string' && TEMPLATE_ID_REGEX.test(raw.id) ? raw.id : fallback.id,
+    name,
+    description: isText(raw.description) ? raw.description : '',
+    documentType: raw.documentType,
+    instructions: textList(raw.instructions),
+    headerFields: textList(raw.headerFields),
+    tableTitle: isText(raw.tableTitle) ? raw.tableTitle : fallback.tableTitle,
+    keyColumn: raw.keyColumn,
+    columns: columns.filter(isColumn),
+    totalColumn: isText(raw.totalColumn) ? raw.totalColumn : null,
+    grandTotals: GRAND_TOTALS.filter(source => grandTotals.includes(source)),
+    model: typeof raw.model === 'string' ? raw.model : undefined,
+    regions: parseRegions(raw.regions),
+  };
+};
+
+const describeQuestions = (scheme: PromptScheme) => {
+  if (scheme.questions.length === 0) return '';
+
+  const lines = scheme.questions.map(q => {
+    const parts = Object.entries(q.partMax)
+      .map(([label, max]) => `${label.toUpperCase()} (max ${max})`)
+      .join(', ');
+    return `- Q${q.qNo}: ${parts}`;
+  });
+
+  return `
+This sheet follows the "${scheme.name}" marking scheme:
+${lines.join('\n')}
+${scheme.grandMaximum !== null ? `Maximum total: ${scheme.grandMaximum}\n` : ''}
+Use the scheme only to locate the right cells. Always report the marks as written, even if they exceed a maximum.
+`;
+};
+
+// The cross-check wording asks for a deliberately different reading order, so a
+// second pass with the same model does not simply repeat the first one's mistakes
+export type PromptVariant = 'standard' | 'cross-check';
+
+const CROSS_CHECK_NOTE = `
+Read the table column by column, top to bottom, rather than row by row. Read every cell on its own and never
+change a value to make a row or the sheet add up.
+`;
+
+// Free text needs the strictest wording; the structured modes are held to the schema by the provider
+const REPLY_INSTRUCTIONS: Record<OutputMode, string> = {
+  tool: 'Reply by calling the submit_extraction function with this object as its arguments.',
+  'json-schema': 'Reply with this JSON object only.',
+  text: 'Return ONLY the JSON object, no markdown or explanation.',
+};
+
+const describeColumn = (column: TemplateColumn) => {
+  switch (column.kind) {
+    case 'mark':
+      return `${column.label} marks`;
+    case 'attendance':
+      return `${column.label} attendance entry`;
+    case 'text':
+      return `${column.label} as written`;
+  }
+};
+
+export const describeRegion = (region: TemplateRegion) =>
+  region.kind === 'header-field' ? `the "${region.label}" header field` : `the ${REGION_LABELS[region.kind].toLowerCase()} (${region.label})`;
+
+const fraction = (value: number) => value.toFixed(2);
+
+// Where the designer drew each area on the sample sheet. Scans are rarely
+// aligned exactly, so the positions are given as a guide only.
+const describeRegions = (regions: TemplateRegion[], cropped: TemplateRegion[]) => {
+  if (regions.length === 0) return '';
+
+  const lines = regions.map(({ box, ...region }) =>
+    `- ${describeRegion({ box, ...region })}: x ${fraction(box.x)}, y ${fraction(box.y)}, width ${fraction(box.width)}, height ${fraction(box.height)}`);
+  const crops = cropped.length > 0
+    ? `After the full page come close-ups of ${cropped.length === regions.length ? 'these areas' : 'some of these areas'}, each named
+before it. Read the values from the close-ups and use the full page for context, but give every box relative to the full page.
+`
+    : '';
+
+  return `
+On this kind of document the areas are roughly here, as fractions of the page from the top-left:
+${lines.join('\n')}
+${crops}`;
+};
+
+const GRAND_TOTAL_EXAMPLES: Record<GrandTotalSource, string> = {
+  written: 'The total marks written/shown in the document (number, e.g. 42.5)',
+  bubbleDigits: 'The bubble digits or final total shown (number, e.g. 42.5)',
+};
+
+export const buildPrompt = (
+  scheme: PromptScheme,
+  template: PromptTemplate,
+  variant: PromptVariant = 'standard',
+  output: OutputMode = 'text',
+  // Regions sent as close-up images with the page
+  cropped: TemplateRegion[] = []
+) => {
+  // The scheme's part labels are the row keys; the template says what each one holds
+  const columnOf = (key: string): TemplateColumn =>
+    template.columns.find(c => c.key === key) ?? { key, label: key.toUpperCase(), kind: 'mark' };
+  const rowExample = [
+    `"qNo": "${template.keyColumn}"`,
+    ...scheme.partLabels.map(key => `"${key}": "${describeColumn(columnOf(key))}"`),
+    template.totalColumn ? `"total": "${template.totalColumn}"` : '"total": ""',
+  ].join(', ');
+  const rowBoxExample = ['qNo', ...scheme.partLabels, 'total'].map(key => `"${key}": [x, y, w, h]`).join(', ');
+  const confidenceExample = ['qNo', ...scheme.partLabels, 'total'].map(key => `"${key}": 0.9`).join(', ');
+  const stateExample = [...scheme.partLabels, 'total'].map(key => `"${key}": "value"`).join(', ');
+  // Totals the document does not have are still sent, as 0, so the reply keeps one shape
+  const grandTotal = (source: GrandTotalSource) =>
+    template.grandTotals.includes(source) ? GRAND_TOTAL_EXAMPLES[source] : '0 (not on this document, always 0)';
+  const headerHint = template.headerFields.length > 0
+    ? `// Look for these fields first: ${template.headerFields.join(', ')}. Use empty strings for any that are missing.
+    // Add any other header/metadata fields you see, using the actual field names in the document`
+    : `// Extract any header/metadata fields like exam name, date, subject, branch, student info, etc.
+    // Use the actual field names you see in the document`;
+  const rowRule = template.totalColumn
+    ? ''
+    : 'There is no total column, so leave "total" empty in every row.\n';
+  const instructions = template.instructions.length > 0 ? `${template.instructions.join('\n')}\n` : '';
+
+  return `Analyze this ${template.documentType} image and extract all information.
+
+IMPORTANT: Extract EXACTLY what you see - handwritten text, printed text, and table data.
+${describeQuestions(scheme)}${describeRegions(template.regions ?? [], cropped)}${variant === 'cross-check' ? CROSS_CHECK_NOTE : ''}
+Return a JSON object with this exact structure:
+{
+  "headerInfo": {
+    ${headerHint}
+  },
+  "tableData": [
+    // Extract each row of the ${template.tableTitle.toLowerCase()} table with:
+    { ${rowExample} }
+    // Include ALL rows, even empty ones
+  ],
+  "writtenTotal": // ${grandTotal('written')}
+  "bubbleDigits": // ${grandTotal('bubbleDigits')}
+  "boxes": {
+    // Where each value above was read from, as [x, y, w, h] normalized to the image size (0 to 1, origin top-left)
+    "headerInfo": { "<same field names as headerInfo>": [x, y, w, h] },
+    "tableData": [
+      // One entry per tableData row, in the same order
+      { ${rowBoxExample} }
+    ],
+    "writtenTotal": [x, y, w, h],
+    "bubbleDigits": [x, y, w, h]
+  },
+  "confidence": {
+    // How sure you are of each value above, from 0 (guess) to 1 (certain), in the same shape as "boxes"
+    "headerInfo": { "<same field names as headerInfo>": 0.95 },
+    "tableData": [
+      { ${confidenceExample} }
+    ],
+    "writtenTotal": 0.9,
+    "bubbleDigits": 0.9
+  },
+  "states": {
+    // What each table cell holds, one of: ${CELL_STATES.map(state => `"${state}"`).join(', ')}
+    "tableData": [
+      { ${stateExample} }
+    ],
+    "writtenTotal": "value",
+    "bubbleDigits": "value"
+  }
+}
+
+If there's no table, return empty tableData array.
+If certain fields don't exist, use empty strings.
+${rowRule}Use null for any box you cannot locate.
+Extract ALL text you can read - both printed and handwritten.
+For handwritten numbers, do your best to interpret them accurately.
+${instructions}Be honest in "confidence": use low scores for smudged, overwritten or ambiguous handwriting.
+In "states", tell these apart: "blank" means the cell is empty or has only a dash (not attempted), "zero" means a 0 is written,
+"illegible" means something is written but cannot be read (put your best guess, or an empty string, as the value),
+and "struck-through" means the entry is crossed out with no replacement. If a crossed-out entry has a new one next to it,
+report the new one as "value".
+
+${REPLY_INSTRUCTIONS[output]}`;
+};
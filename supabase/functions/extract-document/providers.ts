@@ -0,0 +1,128 @@
+import { fetchWithRetry } from "./retry.ts";
+import { OutputMode, parseOutputMode, TOOL_NAME } from "./output-schema.ts";
+
+// Where extraction requests go, picked from the environment:
+//   AI_PROVIDER=lovable (default)  Lovable AI gateway, needs LOVABLE_API_KEY
+//   AI_PROVIDER=openai-compatible  any chat-completions endpoint at AI_BASE_URL,
+//                                  with AI_API_KEY when the server needs one
+//   AI_PROVIDER=mock               replies from ./fixtures, no network at all;
+//                                  MOCK_FIXTURES or a request's mockFixtures
+//                                  picks them, e.g. "not-json,marks-sheet", or
+//                                  "classify-marks-sheet,marks-sheet" when classifying
+// AI_MODEL replaces the provider's default model. A request, its template or its
+// scheme can still name a model of its own. AI_OUTPUT_MODE (tool, json-schema or text)
+// replaces the provider's default way of asking for structured output.
+
+export interface ChatCompletion {
+  response: Response;
+  attempts: number;
+}
+
+export interface ModelProvider {
+  name: string;
+  defaultModel: string | null;
+  outputMode: OutputMode;
+  // Resolves with the final response, successful or not, in the OpenAI chat-completions
+  // shape. extra holds request fields such as tools or response_format.
+  complete: (messages: unknown[], model: string, extra?: Record<string, unknown>) => Promise<ChatCompletion>;
+}
+
+const LOVABLE_BASE_URL = 'https://ai.gateway.lovable.dev/v1';
+const LOVABLE_DEFAULT_MODEL = 'google/gemini-2.5-flash';
+const DEFAULT_FIXTURE = 'marks-sheet';
+
+const MODEL_REGEX = /^[\w.:/@-]{1,100}$/;
+const FIXTURE_REGEX = /^[\w-]{1,64}$/;
+
+export const openAiCompatibleProvider = (
+  name: string,
+  baseUrl: string,
+  apiKey: string | null,
+  defaultModel: string | null,
+  outputMode: OutputMode
+): ModelProvider => ({
+  name,
+  defaultModel,
+  outputMode,
+  complete: (messages, model, extra = {}) =>
+    fetchWithRetry(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model, messages, ...extra }),
+    }),
+});
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Replies with ./fixtures/<name>.txt as the model's message, or as the tool
+// call's arguments when a tool is requested. One fixture is used per call so a
+// re-prompt can be given a different reply; the last one repeats. A fixture
+// named status-<code> answers with that HTTP status instead, and
+// status-<code>-<word> puts the word in the error, e.g. status-400-tools.
+export const mockProvider = (fixtures: string[], outputMode: OutputMode): ModelProvider => {
+  let calls = 0;
+  return {
+    name: 'mock',
+    defaultModel: 'mock',
+    outputMode,
+    complete: async (_messages, _model, extra = {}) => {
+      const fixture = fixtures[Math.min(calls++, fixtures.length - 1)];
+      const status = fixture.match(/^status-(\d{3})(?:-(\w+))?$/);
+      if (status) {
+        const message = `Mock ${status[1]} response${status[2] ? ` (${status[2]} not supported)` : ''}`;
+        return { response: jsonResponse({ error: { message } }, Number(status[1])), attempts: 1 };
+      }
+
+      const content = await Deno.readTextFile(new URL(`./fixtures/${fixture}.txt`, import.meta.url));
+      const message = extra.tools
+        ? { role: 'assistant', content: null, tool_calls: [{ type: 'function', function: { name: TOOL_NAME, arguments: content } }] }
+        : { role: 'assistant', content };
+      return { response: jsonResponse({ choices: [{ message }] }), attempts: 1 };
+    },
+  };
+};
+
+// Returns an error message instead of a provider when the environment is incomplete
+export const createProvider = (
+  env: { get: (key: string) => string | undefined },
+  options: { fixtures?: string } = {}
+): { provider: ModelProvider } | { error: string } => {
+  const kind = env.get('AI_PROVIDER') ?? 'lovable';
+  const modelOverride = env.get('AI_MODEL') || null;
+  const outputOverride = env.get('AI_OUTPUT_MODE');
+  const outputMode = parseOutputMode(outputOverride);
+  if (outputOverride && !outputMode) return { error: `Unknown AI_OUTPUT_MODE "${outputOverride}"` };
+
+  switch (kind) {
+    case 'lovable': {
+      const apiKey = env.get('LOVABLE_API_KEY');
+      if (!apiKey) return { error: 'LOVABLE_API_KEY not configured' };
+      return { provider: openAiCompatibleProvider('Lovable AI gateway', LOVABLE_BASE_URL, apiKey, modelOverride ?? LOVABLE_DEFAULT_MODEL, outputMode ?? 'tool') };
+    }
+    case 'openai-compatible': {
+      const baseUrl = env.get('AI_BASE_URL');
+      if (!baseUrl) return { error: 'AI_BASE_URL not configured' };
+      return { provider: openAiCompatibleProvider(new URL(baseUrl).host, baseUrl, env.get('AI_API_KEY') || null, modelOverride, outputMode ?? 'json-schema') };
+    }
+    case 'mock': {
+      const fixtures = (options.fixtures ?? env.get('MOCK_FIXTURES') ?? DEFAULT_FIXTURE)
+        .split(',').map(name => name.trim()).filter(Boolean);
+      const invalid = fixtures.find(name => !FIXTURE_REGEX.test(name));
+      if (invalid) return { error: `Invalid mock fixture name "${invalid}"` };
+      return { provider: mockProvider(fixtures.length > 0 ? fixtures : [DEFAULT_FIXTURE], outputMode ?? 'text') };
+    }
+    default:
+      return { error: `Unknown AI_PROVIDER "${kind}"` };
+  }
+};
+
+// The first valid model named wins, so list them from most to least specific
+// (request, then template, then scheme) with the fallback, usually the provider default, last
+export const pickModel = (fallback: string | null, ...requested: unknown[]): string | null => {
+  const model = requested.find((m): m is string => typeof m === 'string' && MODEL_REGEX.test(m));
+  return model ?? fallback;
+};
@@ -0,0 +1,52 @@
+import { backoffDelay, RetryOptions } from "../_shared/backoff.ts";
+
+// Kept short so a retried request still finishes well inside the function time limit
+const DEFAULT_RETRY: RetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+};
+
+export const isTransientStatus = (status: number) => status === 429 || status >= 500;
+
+// Retry-After may be given in seconds or as an HTTP date
+const retryAfterMs = (response: Response): number | null => {
+  const header = response.headers.get('retry-after');
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// fetch() that retries 429s, 5xx responses and network errors. The last
+// response is returned as-is, so callers still map the final status to an error.
+export const fetchWithRetry = async (
+  url: string,
+  init: RequestInit,
+  options: RetryOptions = DEFAULT_RETRY
+): Promise<{ response: Response; attempts: number }> => {
+  for (let attempt = 1; ; attempt++) {
+    const isLastAttempt = attempt >= options.maxAttempts;
+
+    try {
+      const response = await fetch(url, init);
+      if (!isTransientStatus(response.status) || isLastAttempt) {
+        return { response, attempts: attempt };
+      }
+
+      const delay = Math.min(options.maxDelayMs, retryAfterMs(response) ?? backoffDelay(attempt, options));
+      console.warn(`AI Gateway returned ${response.status}, retrying in ${Math.round(delay)}ms (attempt ${attempt}/${options.maxAttempts})`);
+      await response.body?.cancel();
+      await sleep(delay);
+    } catch (error) {
+      if (isLastAttempt) throw error;
+
+      const delay = backoffDelay(attempt, options);
+      console.warn(`AI Gateway request failed, retrying in ${Math.round(delay)}ms (attempt ${attempt}/${options.maxAttempts}):`, error);
+      await sleep(delay);
+    }
+  }
+};